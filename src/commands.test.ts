@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { parseBotCommand, buildCommandHelp, buildCommandInstruction } from "./commands.js";
+
+describe("parseBotCommand", () => {
+  it("returns undefined for a free-form mention", () => {
+    expect(parseBotCommand("@copilot-reviewer why is this needed?", "copilot-reviewer")).toBeUndefined();
+  });
+
+  it("parses a known command", () => {
+    expect(parseBotCommand("@copilot-reviewer /review", "copilot-reviewer")).toEqual({
+      name: "review",
+      raw: "review",
+      args: "",
+    });
+  });
+
+  it("captures arguments on the same line only", () => {
+    expect(
+      parseBotCommand("Hey @copilot-reviewer /Explain the retry loop\nthanks!", "copilot-reviewer"),
+    ).toEqual({ name: "explain", raw: "explain", args: "the retry loop" });
+  });
+
+  it("returns unknown for unrecognized commands", () => {
+    expect(parseBotCommand("@copilot-reviewer /deploy prod", "copilot-reviewer")).toEqual({
+      name: "unknown",
+      raw: "deploy",
+      args: "prod",
+    });
+  });
+
+  it("ignores commands addressed to a different user with the same prefix", () => {
+    expect(parseBotCommand("@copilot-reviewer-2 /review", "copilot-reviewer")).toBeUndefined();
+  });
+
+  it("escapes regex characters in the bot username", () => {
+    expect(parseBotCommand("@bot.user /help", "bot.user")?.name).toBe("help");
+    expect(parseBotCommand("@botXuser /help", "bot.user")).toBeUndefined();
+  });
+});
+
+describe("buildCommandInstruction", () => {
+  it("passes the command arguments on to the model", () => {
+    const instruction = buildCommandInstruction({ name: "explain", raw: "explain", args: "the retry loop" });
+
+    expect(instruction).toContain("Explain the code under discussion");
+    expect(instruction).toMatch(/the retry loop$/);
+  });
+
+  it("uses the plain instruction without arguments", () => {
+    expect(buildCommandInstruction({ name: "summarize", raw: "summarize", args: "" })).toMatch(
+      /Keep it short and scannable\.$/,
+    );
+  });
+
+  it("returns undefined for commands handled without Copilot", () => {
+    expect(buildCommandInstruction({ name: "forget", raw: "forget", args: "" })).toBeUndefined();
+    expect(buildCommandInstruction({ name: "unknown", raw: "deploy", args: "prod" })).toBeUndefined();
+  });
+});
+
+describe("buildCommandHelp", () => {
+  it("lists every command with the bot mention", () => {
+    const help = buildCommandHelp("copilot-reviewer");
+    for (const name of ["review", "explain", "summarize", "describe", "forget", "help"]) {
+      expect(help).toContain(`\`@copilot-reviewer /${name}\``);
+    }
+  });
+
+  it("mentions the unknown command when provided", () => {
+    expect(buildCommandHelp("copilot-reviewer", "deploy")).toContain("Unknown command `/deploy`");
+  });
+});
@@ -0,0 +1,116 @@
+import type { BotCommand, BotCommandName } from "./types.js";
+
+// ─── Slash-command grammar ──────────────────────────────────────────────────
+
+interface BotCommandDefinition {
+  /** One-line description shown in the /help response */
+  description: string;
+  /**
+   * Instruction appended to the comment-reply prompt for commands that are
+   * answered by Copilot. Commands without one are handled without a session.
+   */
+  instruction?: string;
+}
+
+/**
+ * Supported `@bot /command` slash commands, in the order shown by /help.
+ */
+export const BOT_COMMANDS: Record<BotCommandName, BotCommandDefinition> = {
+  review: {
+    description:
+      "Review this merge request (only changes since the last review; `/review full` for everything).",
+  },
+  explain: {
+    description:
+      "Explain the code under discussion, or what you name after the command " +
+      "(the whole MR if used outside a diff thread).",
+    instruction:
+      "Explain the code under discussion: what it does, why it is written this way, " +
+      "and how it interacts with the rest of the codebase. If the thread is not attached " +
+      "to a specific file, explain the changes in this merge request instead.",
+  },
+  summarize: {
+    description: "Summarize the changes in this MR and the discussion so far.",
+    instruction:
+      "Summarize this merge request: the overall purpose of the changes, the most important " +
+      "modifications file by file, and any open questions or decisions from the discussion. " +
+      "Keep it short and scannable.",
+  },
+  describe: {
+    description: "Draft a merge request description from the changes.",
+    instruction:
+      "Write a merge request description for these changes that the author can paste into the MR. " +
+      "Use the sections \"## What\", \"## Why\" and \"## How to test\". " +
+      "Base it on the diff and the repository, not on the current description.",
+  },
+  forget: {
+    description: "Clear the bot's conversation memory for this merge request.",
+  },
+  help: {
+    description: "Show this list of commands.",
+  },
+};
+
+function isBotCommandName(name: string): name is BotCommandName {
+  return Object.prototype.hasOwnProperty.call(BOT_COMMANDS, name);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parse a `@bot /command args` invocation from a note body.
+ *
+ * Returns undefined when the mention is not followed by a slash command,
+ * in which case the note is treated as a free-form question. Unrecognized
+ * commands are returned with `name: "unknown"` so they can get a help reply.
+ */
+export function parseBotCommand(
+  note: string,
+  botUsername: string,
+): BotCommand | undefined {
+  const pattern = new RegExp(
+    `(?:^|\\s)@${escapeRegExp(botUsername)}\\s+\\/([A-Za-z][\\w-]*)[ \\t]*([^\\n]*)`,
+  );
+  const match = note.match(pattern);
+  if (!match) return undefined;
+
+  const raw = match[1]!.toLowerCase();
+  const args = match[2]!.trim();
+
+  return isBotCommandName(raw)
+    ? { name: raw, raw, args }
+    : { name: "unknown", raw, args };
+}
+
+/**
+ * Build the prompt instruction for a command answered by Copilot, narrowed
+ * to whatever the user wrote after the command name.
+ */
+export function buildCommandInstruction(command: BotCommand): string | undefined {
+  if (command.name === "unknown") return undefined;
+
+  const { instruction } = BOT_COMMANDS[command.name];
+  if (!instruction || !command.args) return instruction;
+  return `${instruction} The user asked specifically about: ${command.args}`;
+}
+
+/**
+ * Build the Markdown help response listing all supported commands.
+ */
+export function buildCommandHelp(botUsername: string, unknownCommand?: string): string {
+  const intro = unknownCommand
+    ? `❓ Unknown command \`/${unknownCommand}\`. Available commands:`
+    : "🤖 **Copilot Reviewer** commands:";
+
+  const rows = Object.entries(BOT_COMMANDS)
+    .map(([name, def]) => `| \`@${botUsername} /${name}\` | ${def.description} |`)
+    .join("\n");
+
+  return (
+    `${intro}\n\n` +
+    `| Command | Description |\n|---|---|\n${rows}\n\n` +
+    `Mention \`@${botUsername}\` without a command to ask a free-form question.`
+  );
+}
@@ -14,12 +14,26 @@
  *   COPILOT_MODEL         – Model to use (default: gpt-4.1)
  *   COPILOT_CONFIG_DIR    – Copilot SDK config/session directory (default: .copilot-sessions)
  *   LOG_LEVEL             – Logging verbosity (default: info)
+ *   GITLAB_MAX_RETRIES    – Retries for rate-limited or failed GitLab API requests (default: 3)
+ *   GITLAB_REQUEST_TIMEOUT_MS – Timeout per GitLab API request (default: 30000)
  *   GITLAB_AUTO_ADD_REVIEWER – Auto-add bot as MR reviewer when missing (default: false)
+ *   INCREMENTAL_REVIEW    – Re-reviews only cover commits pushed since the last review (default: true)
+ *   REVIEW_TRIGGER_LABELS – Comma-separated MR labels that start a review when added (e.g. ai-review)
+ *   PIPELINE_DIAGNOSIS    – Diagnose failed MR pipelines from pipeline events (default: false)
+ *   REVIEW_APPROVAL       – Approve MRs without critical findings, request changes otherwise (default: false)
+ *   REVIEW_COMMIT_STATUS  – Report a `copilot-review` commit status on the reviewed head (default: false)
+ *   REVIEW_SUMMARY_MODE   – "update" edits the bot's summary note in place, "append" posts a new one per review (default: update)
+ *   DRY_RUN               – Record GitLab writes as Markdown/JSON previews instead of posting (default: false)
+ *   DRY_RUN_OUTPUT_DIR    – Directory for dry-run previews (default: .copilot-dry-run)
  *
  * Optional Jira integration (all three required to enable):
  *   JIRA_URL              – Jira instance URL (e.g. https://yourteam.atlassian.net)
  *   JIRA_EMAIL            – Email associated with the Jira API token
  *   JIRA_API_TOKEN        – Jira API token
+ *
+ * Webhook server mode (`server.ts`) additionally uses:
+ *   GITLAB_WEBHOOK_SECRET – Secret token configured on the GitLab webhook (required)
+ *   WEBHOOK_PORT          – HTTP port to listen on (default: 3000)
  */
 
 export interface Config {
@@ -27,6 +41,16 @@ export interface Config {
   gitlabToken: string;
   gitlabBotUsername: string;
   gitlabAutoAddReviewer: boolean;
+  gitlabMaxRetries: number;
+  gitlabRequestTimeoutMs: number;
+  incrementalReview: boolean;
+  reviewTriggerLabels: string[];
+  pipelineDiagnosis: boolean;
+  reviewApproval: boolean;
+  reviewCommitStatus: boolean;
+  reviewSummaryMode: "update" | "append";
+  dryRun: boolean;
+  dryRunOutputDir: string;
   githubToken: string;
   copilotModel: string;
   copilotConfigDir: string;
@@ -38,6 +62,20 @@ export interface Config {
   };
 }
 
+/**
+ * The subset of config needed to classify webhook events. Loadable without
+ * any tokens, so payloads can be replayed offline (see `replay.ts`).
+ */
+export type ClassificationConfig = Pick<
+  Config,
+  "gitlabBotUsername" | "reviewTriggerLabels" | "pipelineDiagnosis"
+>;
+
+export interface WebhookServerConfig extends Config {
+  webhookSecret: string;
+  webhookPort: number;
+}
+
 function requireEnv(name: string): string {
   const value = process.env[name];
   if (!value) {
@@ -46,14 +84,44 @@ function requireEnv(name: string): string {
   return value;
 }
 
-function parseBooleanEnv(value: string | undefined): boolean {
-  if (!value) return false;
+function parseBooleanEnv(value: string | undefined, defaultValue = false): boolean {
+  if (!value) return defaultValue;
   return ["1", "true", "yes", "on"].includes(value.trim().toLowerCase());
 }
 
-export function loadConfig(): Config {
+function parseIntegerEnv(name: string, defaultValue: number, min: number): number {
+  const value = process.env[name];
+  if (!value) return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+function parseListEnv(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+export function loadClassificationConfig(): ClassificationConfig {
+  return {
+    gitlabBotUsername: requireEnv("GITLAB_BOT_USERNAME"),
+    reviewTriggerLabels: parseListEnv(process.env["REVIEW_TRIGGER_LABELS"]),
+    pipelineDiagnosis: parseBooleanEnv(process.env["PIPELINE_DIAGNOSIS"]),
+  };
+}
+
+/**
+ * `overrides.gitlabUrl` replaces CI_SERVER_URL / GITLAB_URL, e.g. for
+ * `replay --run --gitlab-url` on a machine that sets neither.
+ */
+export function loadConfig(overrides: { gitlabUrl?: string } = {}): Config {
   // Use CI_SERVER_URL (predefined) or fall back to GITLAB_URL (for local testing)
-  const gitlabUrl = process.env["CI_SERVER_URL"] ?? process.env["GITLAB_URL"];
+  const gitlabUrl = overrides.gitlabUrl ?? process.env["CI_SERVER_URL"] ?? process.env["GITLAB_URL"];
   if (!gitlabUrl) {
     throw new Error("Missing GitLab URL: CI_SERVER_URL or GITLAB_URL must be set");
   }
@@ -71,11 +139,30 @@ export function loadConfig(): Config {
     console.log(`[config] Jira integration enabled (${jira.url})`);
   }
 
+  const reviewSummaryMode = (process.env["REVIEW_SUMMARY_MODE"] ?? "update").trim().toLowerCase();
+  if (reviewSummaryMode !== "update" && reviewSummaryMode !== "append") {
+    throw new Error(`Invalid REVIEW_SUMMARY_MODE: ${process.env["REVIEW_SUMMARY_MODE"]}`);
+  }
+
+  const dryRun = parseBooleanEnv(process.env["DRY_RUN"]);
+  const dryRunOutputDir = process.env["DRY_RUN_OUTPUT_DIR"] ?? ".copilot-dry-run";
+  if (dryRun) {
+    console.log(`[config] DRY_RUN enabled — GitLab writes are recorded to ${dryRunOutputDir}`);
+  }
+
   return {
     gitlabUrl: gitlabUrl.replace(/\/+$/, ""),
     gitlabToken: requireEnv("GITLAB_TOKEN"),
-    gitlabBotUsername: requireEnv("GITLAB_BOT_USERNAME"),
+    ...loadClassificationConfig(),
     gitlabAutoAddReviewer: parseBooleanEnv(process.env["GITLAB_AUTO_ADD_REVIEWER"]),
+    gitlabMaxRetries: parseIntegerEnv("GITLAB_MAX_RETRIES", 3, 0),
+    gitlabRequestTimeoutMs: parseIntegerEnv("GITLAB_REQUEST_TIMEOUT_MS", 30_000, 1),
+    incrementalReview: parseBooleanEnv(process.env["INCREMENTAL_REVIEW"], true),
+    reviewApproval: parseBooleanEnv(process.env["REVIEW_APPROVAL"]),
+    reviewCommitStatus: parseBooleanEnv(process.env["REVIEW_COMMIT_STATUS"]),
+    reviewSummaryMode,
+    dryRun,
+    dryRunOutputDir,
     githubToken: requireEnv("GITHUB_TOKEN"),
     copilotModel: process.env["COPILOT_MODEL"] ?? "gpt-4.1",
     copilotConfigDir: process.env["COPILOT_CONFIG_DIR"] ?? ".copilot-sessions",
@@ -84,4 +171,15 @@ export function loadConfig(): Config {
   };
 }
 
+export function loadWebhookServerConfig(): WebhookServerConfig {
+  const webhookPort = Number(process.env["WEBHOOK_PORT"] ?? "3000");
+  if (!Number.isInteger(webhookPort) || webhookPort <= 0) {
+    throw new Error(`Invalid WEBHOOK_PORT: ${process.env["WEBHOOK_PORT"]}`);
+  }
 
+  return {
+    ...loadConfig(),
+    webhookSecret: requireEnv("GITLAB_WEBHOOK_SECRET"),
+    webhookPort,
+  };
+}
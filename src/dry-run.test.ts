@@ -0,0 +1,188 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Config } from "./config.js";
+import { dryRunTargetKey, renderDryRunMarkdown, type DryRunEntry } from "./dry-run.js";
+import { GitLabClient } from "./gitlab-client.js";
+import type { MergeRequestDiffVersionDetail } from "./types.js";
+
+describe("dryRunTargetKey", () => {
+  it("groups writes by merge request, issue and commit", () => {
+    expect(dryRunTargetKey("/projects/42/merge_requests/7/draft_notes")).toBe(
+      "project-42-merge_requests-7",
+    );
+    expect(dryRunTargetKey("/projects/42/issues/17/discussions/abc/notes")).toBe(
+      "project-42-issues-17",
+    );
+    expect(dryRunTargetKey("/projects/42/repository/commits/b83d6e39/discussions/abc/notes")).toBe(
+      "project-42-commits-b83d6e39",
+    );
+  });
+
+  it("falls back to a shared file for other endpoints", () => {
+    expect(dryRunTargetKey("/users?username=bot")).toBe("other");
+  });
+});
+
+describe("renderDryRunMarkdown", () => {
+  it("renders positions, bodies and skipped duplicates", () => {
+    const entries: DryRunEntry[] = [
+      {
+        action: "draft_diff_note",
+        method: "POST",
+        endpoint: "/projects/42/merge_requests/7/draft_notes",
+        body: {
+          note: "🟡 **WARNING**: Missing null check",
+          position: { new_path: "src/app.ts", new_line: 12, old_line: 10 },
+        },
+      },
+      {
+        action: "skipped_duplicate",
+        endpoint: "/projects/42/merge_requests/7/draft_notes",
+        body: { file: "src/app.ts", line: 3, note: "Already said" },
+      },
+    ];
+
+    const markdown = renderDryRunMarkdown("project-42-merge_requests-7", entries);
+
+    expect(markdown).toContain("_2 recorded write(s). Nothing was posted to GitLab._");
+    expect(markdown).toContain("## 1. Inline draft note — `src/app.ts` (new_line 12, old_line 10)");
+    expect(markdown).toContain("`POST /projects/42/merge_requests/7/draft_notes`");
+    expect(markdown).toContain("🟡 **WARNING**: Missing null check");
+    expect(markdown).toContain("## 2. Skipped duplicate — `src/app.ts:3`");
+    expect(markdown).toContain("_Not posted: an identical comment already exists._");
+  });
+});
+
+describe("GitLabClient in DRY_RUN mode", () => {
+  let outputDir: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const diffVersion: MergeRequestDiffVersionDetail = {
+    id: 1,
+    head_commit_sha: "head000000",
+    base_commit_sha: "base000000",
+    start_commit_sha: "start00000",
+    created_at: "2026-02-16T10:00:00Z",
+    merge_request_id: 100,
+    state: "collected",
+    real_size: "1",
+    patch_id_sha: "patch",
+    commits: [],
+    diffs: [
+      {
+        old_path: "src/app.ts",
+        new_path: "src/app.ts",
+        a_mode: "100644",
+        b_mode: "100644",
+        diff: "@@ -1,2 +1,3 @@\n const a = 1;\n+const b = 2;\n const c = 3;",
+        new_file: false,
+        renamed_file: false,
+        deleted_file: false,
+        too_large: false,
+        collapsed: false,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), "dry-run-test-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    // Only GET requests may reach GitLab
+    fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method !== "GET") {
+        throw new Error(`Unexpected ${init.method} ${url}`);
+      }
+      const body = new URL(url).pathname.endsWith("/notes")
+        ? [{ id: 1, body: "**src/app.ts:3** – Rename this constant" }]
+        : [];
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  function makeClient(): GitLabClient {
+    return new GitLabClient({
+      gitlabUrl: "https://gitlab.example.com",
+      gitlabToken: "glpat-test",
+      gitlabMaxRetries: 0,
+      gitlabRequestTimeoutMs: 5_000,
+      dryRun: true,
+      dryRunOutputDir: outputDir,
+    } as Config);
+  }
+
+  it("records the review instead of posting it", async () => {
+    const result = await makeClient().postReview(
+      42,
+      7,
+      "## 🤖 Copilot Code Review",
+      [
+        { file: "src/app.ts", line: 2, body: "Unused constant", severity: "warning" },
+        { file: "src/app.ts", line: 3, body: "Rename this constant", severity: "info" },
+      ],
+      diffVersion,
+    );
+
+    expect(result).toEqual({ posted: 1, failed: 0, skipped: 1, resolved: 0, stillApplies: 0 });
+    expect(fetchMock.mock.calls.every(([, init]) => init.method === "GET")).toBe(true);
+
+    const preview = JSON.parse(
+      await readFile(join(outputDir, "project-42-merge_requests-7.json"), "utf-8"),
+    ) as { entries: DryRunEntry[] };
+
+    expect(preview.entries.map((e) => e.action)).toEqual([
+      "draft_diff_note",
+      "skipped_duplicate",
+      "publish_drafts",
+      "note",
+    ]);
+    expect(preview.entries[0]!.body).toEqual({
+      note: expect.stringMatching(
+        /^🟡 \*\*WARNING\*\*: Unused constant\n\n<!-- copilot-review:fingerprint=[0-9a-f]{16} -->$/,
+      ),
+      position: {
+        position_type: "text",
+        base_sha: "base000000",
+        head_sha: "head000000",
+        start_sha: "start00000",
+        old_path: "src/app.ts",
+        new_path: "src/app.ts",
+        new_line: 2,
+      },
+    });
+
+    const markdown = await readFile(join(outputDir, "project-42-merge_requests-7.md"), "utf-8");
+    expect(markdown).toContain("## 4. Note");
+    expect(markdown).toContain("## 🤖 Copilot Code Review");
+  });
+
+  it("records reviewer updates", async () => {
+    await makeClient().updateMergeRequestReviewers(42, 7, [5, 9]);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const markdown = await readFile(join(outputDir, "project-42-merge_requests-7.md"), "utf-8");
+    expect(markdown).toContain("## 1. Set reviewers to [5,9]");
+    expect(markdown).toContain("`PUT /projects/42/merge_requests/7`");
+  });
+
+  it("files GraphQL reviewer state changes under the MR", async () => {
+    const client = makeClient();
+    await client.unapproveMergeRequest(42, 7);
+    await client.requestMergeRequestChanges(42, "group/demo", 7, 99);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const markdown = await readFile(join(outputDir, "project-42-merge_requests-7.md"), "utf-8");
+    expect(markdown).toContain("## 1. Revoke approval");
+    expect(markdown).toContain("## 2. Set reviewer state to REQUESTED_CHANGES");
+    expect(markdown).toContain("`POST /graphql`");
+  });
+});
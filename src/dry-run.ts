@@ -0,0 +1,165 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { DiffPosition } from "./types.js";
+
+// ─── Dry-run recording ──────────────────────────────────────────────────────
+
+/**
+ * What a GitLab write would have done. Used to label entries in the preview.
+ */
+export type DryRunAction =
+  | "draft_note"
+  | "draft_diff_note"
+  | "draft_reply"
+  | "delete_draft_note"
+  | "publish_drafts"
+  | "note"
+  | "update_note"
+  | "diff_discussion"
+  | "discussion_reply"
+  | "update_reviewers"
+  | "award_emoji"
+  | "delete_award_emoji"
+  | "approve"
+  | "unapprove"
+  | "reviewer_state"
+  | "commit_status"
+  | "skipped_duplicate";
+
+export interface DryRunEntry {
+  action: DryRunAction;
+  /** HTTP method of the suppressed request (unset for skipped duplicates) */
+  method?: string;
+  /** API path relative to /api/v4 */
+  endpoint: string;
+  /** Request body exactly as it would have been sent */
+  body?: Record<string, unknown>;
+}
+
+/**
+ * Group writes by the object they target (MR, issue or commit), so each
+ * gets its own preview file: `/projects/42/merge_requests/7/notes` →
+ * `project-42-merge_requests-7`.
+ */
+export function dryRunTargetKey(endpoint: string): string {
+  const match = endpoint.match(
+    /^\/projects\/(\d+)\/(merge_requests|issues|repository\/commits)\/([^/?]+)/,
+  );
+  if (!match) return "other";
+  return `project-${match[1]}-${match[2]!.replace("repository/", "")}-${match[3]}`;
+}
+
+function describeEntry(entry: DryRunEntry): string {
+  const body = entry.body ?? {};
+  switch (entry.action) {
+    case "draft_diff_note":
+    case "diff_discussion": {
+      const position = body["position"] as DiffPosition;
+      const kind = entry.action === "draft_diff_note" ? "Inline draft note" : "Inline discussion";
+      if (position.position_type === "file") {
+        return `${kind} — \`${position.new_path}\` (whole file)`;
+      }
+      const range = position.line_range
+        ? `, lines ${position.line_range.start.new_line ?? position.line_range.start.old_line}` +
+          `–${position.line_range.end.new_line ?? position.line_range.end.old_line}`
+        : "";
+      return (
+        `${kind} — \`${position.new_path}\` ` +
+        `(new_line ${position.new_line ?? "–"}, old_line ${position.old_line ?? "–"}${range})`
+      );
+    }
+    case "draft_note":
+      return "General draft note";
+    case "draft_reply":
+      return body["resolve_discussion"]
+        ? `Draft reply resolving discussion ${body["in_reply_to_discussion_id"]}`
+        : `Draft reply to discussion ${body["in_reply_to_discussion_id"]}`;
+    case "delete_draft_note":
+      return `Delete draft note ${entry.endpoint.split("/").pop()}`;
+    case "publish_drafts":
+      return "Publish all draft notes as one review";
+    case "note":
+      return "Note";
+    case "update_note":
+      return `Edit note ${entry.endpoint.split("/").pop()}`;
+    case "discussion_reply":
+      return "Discussion reply";
+    case "update_reviewers":
+      return `Set reviewers to ${JSON.stringify(body["reviewer_ids"])}`;
+    case "award_emoji":
+      return `Award :${body["name"]}:`;
+    case "delete_award_emoji":
+      return "Remove award emoji";
+    case "approve":
+      return `Approve at \`${body["sha"]}\``;
+    case "unapprove":
+      return "Revoke approval";
+    case "commit_status":
+      return `Set commit status ${body["name"]} to ${body["state"]}`;
+    case "reviewer_state": {
+      const variables = body["variables"] as Record<string, unknown>;
+      return `Set reviewer state to ${variables["reviewerState"]}`;
+    }
+    case "skipped_duplicate":
+      return `Skipped duplicate — \`${body["file"]}${body["line"] !== undefined ? `:${body["line"]}` : ""}\``;
+  }
+}
+
+/**
+ * Render the recorded writes for one target as a Markdown preview.
+ */
+export function renderDryRunMarkdown(target: string, entries: DryRunEntry[]): string {
+  let markdown =
+    `# Dry run: ${target}\n\n` +
+    `_${entries.length} recorded write(s). Nothing was posted to GitLab._\n`;
+
+  entries.forEach((entry, index) => {
+    markdown += `\n## ${index + 1}. ${describeEntry(entry)}\n\n`;
+    markdown += entry.method
+      ? `\`${entry.method} ${entry.endpoint}\`\n`
+      : `_Not posted: an identical comment already exists._\n`;
+
+    const text = entry.body?.["note"] ?? entry.body?.["body"];
+    if (typeof text === "string") {
+      markdown += `\n${text}\n`;
+    }
+  });
+
+  return markdown;
+}
+
+/**
+ * Collects the GitLab writes suppressed in DRY_RUN mode and keeps a Markdown
+ * preview plus a JSON file per target up to date in the output directory.
+ */
+export class DryRunRecorder {
+  private outputDir: string;
+  private entries = new Map<string, DryRunEntry[]>();
+
+  constructor(outputDir: string) {
+    this.outputDir = outputDir;
+  }
+
+  /**
+   * `target` overrides the key derived from the endpoint, for requests whose
+   * path doesn't name the MR (GraphQL).
+   */
+  async record(entry: DryRunEntry, target = dryRunTargetKey(entry.endpoint)): Promise<void> {
+    const entries = this.entries.get(target) ?? [];
+    entries.push(entry);
+    this.entries.set(target, entries);
+
+    const basePath = join(this.outputDir, target);
+    await mkdir(this.outputDir, { recursive: true });
+    await writeFile(
+      `${basePath}.json`,
+      `${JSON.stringify({ target, dryRun: true, entries }, null, 2)}\n`,
+    );
+    await writeFile(`${basePath}.md`, renderDryRunMarkdown(target, entries));
+
+    console.log(
+      `[gitlab] DRY_RUN: recorded ${entry.action}` +
+      `${entry.method ? ` (${entry.method} ${entry.endpoint})` : ""} → ${basePath}.md`,
+    );
+  }
+}
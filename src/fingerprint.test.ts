@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { buildFingerprintMarker, computeCommentFingerprint, extractFingerprints } from "./fingerprint.js";
+
+const INPUT = { file: "src/db.ts", snippet: "  return db.query(sql);", category: "sql-injection" };
+
+describe("computeCommentFingerprint", () => {
+  it("is stable across re-indentation and category casing", () => {
+    expect(computeCommentFingerprint(INPUT)).toMatch(/^[0-9a-f]{16}$/);
+    expect(
+      computeCommentFingerprint({ ...INPUT, snippet: "\treturn  db.query(sql);  ", category: "SQL-Injection" }),
+    ).toBe(computeCommentFingerprint(INPUT));
+  });
+
+  it("differs by file, snippet and category", () => {
+    const fingerprint = computeCommentFingerprint(INPUT);
+    expect(computeCommentFingerprint({ ...INPUT, file: "src/other.ts" })).not.toBe(fingerprint);
+    expect(computeCommentFingerprint({ ...INPUT, snippet: "return db.exec(sql);" })).not.toBe(fingerprint);
+    expect(computeCommentFingerprint({ ...INPUT, category: "n-plus-one" })).not.toBe(fingerprint);
+  });
+
+  it("keys findings without a category by their text", () => {
+    const wholeFile = { file: "src/db.ts", snippet: "" };
+    const splitModule = computeCommentFingerprint({ ...wholeFile, body: "This module should be split" });
+
+    expect(computeCommentFingerprint({ ...wholeFile, body: "Missing  license header" })).not.toBe(splitModule);
+    expect(computeCommentFingerprint({ ...wholeFile, body: " this module should be\nsplit" })).toBe(splitModule);
+  });
+});
+
+describe("extractFingerprints", () => {
+  it("reads back the markers embedded in a note", () => {
+    const a = computeCommentFingerprint(INPUT);
+    const b = computeCommentFingerprint({ ...INPUT, category: "n-plus-one" });
+    const body = `🔴 **CRITICAL**: SQL injection\n\n${buildFingerprintMarker(a)}\n${buildFingerprintMarker(b)}`;
+
+    expect(extractFingerprints(body)).toEqual([a, b]);
+    expect(extractFingerprints("no markers here")).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+
+// ─── Comment fingerprints ───────────────────────────────────────────────────
+
+/**
+ * Hidden marker appended to every review comment the bot posts. It
+ * identifies a finding by file, the code it is anchored to and its category
+ * — not by line number or wording — so re-reviews recognise findings they
+ * already posted even after lines shift or the model rephrases them.
+ * Findings without a category fall back to their wording.
+ */
+const FINGERPRINT_MARKER_PATTERN = /<!-- copilot-review:fingerprint=([0-9a-f]{16}) -->/g;
+
+export interface FingerprintInput {
+  file: string;
+  /** Source text of the line the comment is anchored to ("" for whole-file remarks) */
+  snippet: string;
+  /** Rule or category of the finding, e.g. "sql-injection" */
+  category?: string;
+  /** Comment text; identifies the finding instead when there is no category */
+  body?: string;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function computeCommentFingerprint({ file, snippet, category, body = "" }: FingerprintInput): string {
+  // Without a category, distinct findings on the same code (or the same
+  // file, for whole-file remarks) must not collide, so the text keys them
+  const kind = category?.trim()
+    ? category.trim().toLowerCase()
+    : `body:${normalizeWhitespace(body).toLowerCase()}`;
+  // Re-indenting or reformatting the line keeps the fingerprint
+  return createHash("sha256")
+    .update([file, normalizeWhitespace(snippet), kind].join("\0"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function buildFingerprintMarker(fingerprint: string): string {
+  return `<!-- copilot-review:fingerprint=${fingerprint} -->`;
+}
+
+/**
+ * All fingerprints embedded in a note body.
+ */
+export function extractFingerprints(body: string): string[] {
+  return [...body.matchAll(FINGERPRINT_MARKER_PATTERN)].map((match) => match[1]!);
+}
@@ -6,6 +6,15 @@ import { promisify } from "node:util";
 
 const execFileAsync = promisify(execFile);
 
+const GIT_OPTIONS = {
+  timeout: 120_000, // 2 minute timeout
+  env: {
+    ...process.env,
+    // Prevent git from asking for credentials interactively
+    GIT_TERMINAL_PROMPT: "0",
+  },
+};
+
 /**
  * Clone result with working directory path and cleanup function.
  */
@@ -27,6 +36,30 @@ function buildAuthUrl(gitHttpUrl: string, token: string): string {
   return url.toString();
 }
 
+/**
+ * Remove the token from git output. Failed commands report their full
+ * command line, auth URL included, and errors can end up in MR notes.
+ */
+export function redactCredentials(message: string, token: string): string {
+  let redacted = message.replace(/\/\/([^/@\s:]+):[^/@\s]*@/g, "//$1:***@");
+  for (const secret of [token, encodeURIComponent(token)]) {
+    if (secret) redacted = redacted.split(secret).join("***");
+  }
+  return redacted;
+}
+
+/**
+ * Run git, rethrowing failures with credentials removed from the message.
+ */
+async function runGit(args: string[], gitlabToken: string): Promise<void> {
+  try {
+    await execFileAsync("git", args, GIT_OPTIONS);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(redactCredentials(message, gitlabToken));
+  }
+}
+
 /**
  * Shallow-clone a GitLab repository branch into a temporary directory.
  *
@@ -44,21 +77,14 @@ export async function cloneRepository(
   console.log(`[git] Cloning ${gitHttpUrl} (branch: ${branch}) into ${dir}…`);
 
   try {
-    await execFileAsync("git", [
+    await runGit([
       "clone",
       "--depth", "1",
       "--single-branch",
       "--branch", branch,
       authUrl,
       dir,
-    ], {
-      timeout: 120_000, // 2 minute timeout
-      env: {
-        ...process.env,
-        // Prevent git from asking for credentials interactively
-        GIT_TERMINAL_PROMPT: "0",
-      },
-    });
+    ], gitlabToken);
 
     console.log(`[git] Clone complete: ${dir}`);
 
@@ -77,3 +103,174 @@ export async function cloneRepository(
     );
   }
 }
+
+/**
+ * Shallow-fetch a single commit into a temporary directory and check it out
+ * (detached HEAD).
+ *
+ * Used when the discussed code is pinned to a commit rather than a branch
+ * tip, e.g. comments on a commit. GitLab allows fetching any reachable SHA.
+ */
+export async function cloneRepositoryAtCommit(
+  gitHttpUrl: string,
+  sha: string,
+  gitlabToken: string,
+): Promise<CloneResult> {
+  return fetchAndCheckout(gitHttpUrl, sha, `commit: ${sha.slice(0, 8)}`, gitlabToken).catch((err) => {
+    throw new Error(
+      `Failed to fetch commit ${sha}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  });
+}
+
+/**
+ * Shallow-fetch a merge request's head from its target project
+ * (`refs/merge-requests/<iid>/head`). GitLab keeps this ref in the target
+ * project for every MR, including MRs from forks.
+ */
+export async function cloneMergeRequestHead(
+  gitHttpUrl: string,
+  mrIid: number,
+  gitlabToken: string,
+): Promise<CloneResult> {
+  const ref = `refs/merge-requests/${mrIid}/head`;
+  return fetchAndCheckout(gitHttpUrl, ref, `ref: ${ref}`, gitlabToken).catch((err) => {
+    throw new Error(
+      `Failed to fetch ${ref}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  });
+}
+
+/**
+ * Where a merge request's source code lives.
+ */
+export interface MergeRequestSource {
+  mrIid: number;
+  /** HTTP clone URL of the MR's target project */
+  targetHttpUrl: string;
+  sourceBranch: string;
+  /** Set when the MR comes from a fork */
+  fork?: { httpUrl: string; pathWithNamespace: string };
+}
+
+/**
+ * Clone the source of a merge request.
+ *
+ * Same-project MRs clone the source branch. For MRs from a fork the branch
+ * doesn't exist in the target project, so the MR head ref is fetched from
+ * the target instead, falling back to cloning the fork itself. Private forks
+ * the bot can't read fail with a message saying so.
+ */
+export async function cloneMergeRequestSource(
+  source: MergeRequestSource,
+  gitlabToken: string,
+): Promise<CloneResult> {
+  const { mrIid, targetHttpUrl, sourceBranch, fork } = source;
+  if (!fork) {
+    return cloneRepository(targetHttpUrl, sourceBranch, gitlabToken);
+  }
+
+  console.log(`[git] MR !${mrIid} comes from the fork ${fork.pathWithNamespace}`);
+  try {
+    return await cloneMergeRequestHead(targetHttpUrl, mrIid, gitlabToken);
+  } catch (err) {
+    console.warn("[git] Could not fetch the MR head from the target project, cloning the fork instead:", err);
+  }
+
+  try {
+    return await cloneRepository(fork.httpUrl, sourceBranch, gitlabToken);
+  } catch (err) {
+    throw new Error(
+      `Could not read the source of MR !${mrIid} from the fork ${fork.pathWithNamespace}. ` +
+      `If the fork is private, give the bot user at least Reporter access to it. ` +
+      `(${err instanceof Error ? err.message : String(err)})`,
+      { cause: err },
+    );
+  }
+}
+
+/**
+ * Check out exactly `sha`, the head of the MR diff version being reviewed,
+ * so the files the model reads match the diff.
+ *
+ * The commit is fetched from the target project, where GitLab keeps every
+ * MR version reachable (also for forks), falling back to the fork. Fails
+ * if neither has it, rather than reviewing different code.
+ */
+export async function cloneMergeRequestAtCommit(
+  source: MergeRequestSource,
+  sha: string,
+  gitlabToken: string,
+): Promise<CloneResult> {
+  const { mrIid, targetHttpUrl, fork } = source;
+  let targetError: unknown;
+  try {
+    return await cloneRepositoryAtCommit(targetHttpUrl, sha, gitlabToken);
+  } catch (err) {
+    targetError = err;
+  }
+
+  if (fork) {
+    console.warn("[git] Could not fetch the MR head from the target project, trying the fork:", targetError);
+    try {
+      return await cloneRepositoryAtCommit(fork.httpUrl, sha, gitlabToken);
+    } catch (err) {
+      throw new Error(
+        `Commit ${sha} (head of MR !${mrIid}) is not reachable in the target project ` +
+        `or the fork ${fork.pathWithNamespace}. If the fork is private, give the bot user ` +
+        `at least Reporter access to it. ` +
+        `(${err instanceof Error ? err.message : String(err)})`,
+        { cause: err },
+      );
+    }
+  }
+
+  throw new Error(
+    `Commit ${sha} (head of MR !${mrIid}) is not reachable — refusing to review other code. ` +
+    `(${targetError instanceof Error ? targetError.message : String(targetError)})`,
+    { cause: targetError },
+  );
+}
+
+/**
+ * Fetch a single commit or ref (depth 1) into a new temporary directory and
+ * check it out as a detached HEAD.
+ */
+async function fetchAndCheckout(
+  gitHttpUrl: string,
+  ref: string,
+  description: string,
+  gitlabToken: string,
+): Promise<CloneResult> {
+  const dir = await mkdtemp(join(tmpdir(), "gitlab-review-"));
+  const authUrl = buildAuthUrl(gitHttpUrl, gitlabToken);
+
+  console.log(`[git] Fetching ${gitHttpUrl} (${description}) into ${dir}…`);
+
+  try {
+    await runGit(["init", "--quiet", dir], gitlabToken);
+    await runGit([
+      "-C", dir,
+      "fetch",
+      "--quiet",
+      "--depth", "1",
+      authUrl,
+      ref,
+    ], gitlabToken);
+    await runGit(["-C", dir, "checkout", "--quiet", "--detach", "FETCH_HEAD"], gitlabToken);
+
+    console.log(`[git] Checkout complete: ${dir}`);
+
+    return {
+      dir,
+      cleanup: async () => {
+        console.log(`[git] Cleaning up ${dir}`);
+        await rm(dir, { recursive: true, force: true });
+      },
+    };
+  } catch (err) {
+    // Clean up on failure
+    await rm(dir, { recursive: true, force: true }).catch(() => {});
+    throw err;
+  }
+}
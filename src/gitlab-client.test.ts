@@ -1,5 +1,67 @@
-import { describe, it, expect } from "vitest";
-import { parseDiffLines, computeOldLine } from "./gitlab-client.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import type { Config } from "./config.js";
+import { buildFingerprintMarker, computeCommentFingerprint } from "./fingerprint.js";
+import type { DiffFile, DiffPosition, MergeRequestDiffVersionDetail } from "./types.js";
+import {
+  GitLabApiError,
+  GitLabClient,
+  isRetryableStatus,
+  retryDelayMs,
+  buildLineCode,
+  buildLineRange,
+  buildOldSidePosition,
+  hasLineLevelDiff,
+  parseRemovedLines,
+  findDiffLineText,
+  parseDiffLines,
+  computeOldLine,
+  nextPagePath,
+  setQueryParam,
+} from "./gitlab-client.js";
+
+function makeClient(overrides: Partial<Config> = {}): GitLabClient {
+  return new GitLabClient({
+    gitlabUrl: "https://gitlab.example.com",
+    gitlabToken: "glpat-test",
+    gitlabMaxRetries: 0,
+    gitlabRequestTimeoutMs: 5_000,
+    ...overrides,
+  } as Config);
+}
+
+function makeDiffFile(overrides: Partial<DiffFile> = {}): DiffFile {
+  return {
+    old_path: "src/app.ts",
+    new_path: "src/app.ts",
+    a_mode: "100644",
+    b_mode: "100644",
+    diff: "@@ -1,2 +1,2 @@\n-const a = 1;\n+const a = 2;\n const b = 3;",
+    new_file: false,
+    renamed_file: false,
+    deleted_file: false,
+    too_large: false,
+    collapsed: false,
+    ...overrides,
+  };
+}
+
+function makeDiffVersion(overrides: Partial<MergeRequestDiffVersionDetail> = {}): MergeRequestDiffVersionDetail {
+  return {
+    id: 1,
+    head_commit_sha: "head000000",
+    base_commit_sha: "base000000",
+    start_commit_sha: "start00000",
+    created_at: "2026-02-16T10:00:00Z",
+    merge_request_id: 100,
+    state: "collected",
+    real_size: "1",
+    patch_id_sha: "patch",
+    commits: [],
+    diffs: [],
+    ...overrides,
+  };
+}
 
 describe("parseDiffLines", () => {
   it("returns empty map for empty diff", () => {
@@ -18,9 +80,9 @@ describe("parseDiffLines", () => {
     const result = parseDiffLines(diff);
 
     // Line 11 = added → oldLine null
-    expect(result.get(11)).toEqual({ newLine: 11, oldLine: null });
+    expect(result.get(11)).toEqual({ newLine: 11, oldLine: null, oldPosition: 11 });
     // Line 12 = added → oldLine null
-    expect(result.get(12)).toEqual({ newLine: 12, oldLine: null });
+    expect(result.get(12)).toEqual({ newLine: 12, oldLine: null, oldPosition: 11 });
   });
 
   it("parses context lines with both oldLine and newLine", () => {
@@ -34,9 +96,9 @@ describe("parseDiffLines", () => {
     const result = parseDiffLines(diff);
 
     // All context lines: old and new sides advance in lockstep
-    expect(result.get(10)).toEqual({ newLine: 10, oldLine: 10 });
-    expect(result.get(11)).toEqual({ newLine: 11, oldLine: 11 });
-    expect(result.get(12)).toEqual({ newLine: 12, oldLine: 12 });
+    expect(result.get(10)).toEqual({ newLine: 10, oldLine: 10, oldPosition: 10 });
+    expect(result.get(11)).toEqual({ newLine: 11, oldLine: 11, oldPosition: 11 });
+    expect(result.get(12)).toEqual({ newLine: 12, oldLine: 12, oldPosition: 12 });
   });
 
   it("handles removed lines — skips old side, does not add to map", () => {
@@ -51,10 +113,10 @@ describe("parseDiffLines", () => {
     const result = parseDiffLines(diff);
 
     // context before: new=10, old=10
-    expect(result.get(10)).toEqual({ newLine: 10, oldLine: 10 });
+    expect(result.get(10)).toEqual({ newLine: 10, oldLine: 10, oldPosition: 10 });
     // Two removed lines consume old 11 and 12 but produce no new lines
     // context after: new=11, old=13
-    expect(result.get(11)).toEqual({ newLine: 11, oldLine: 13 });
+    expect(result.get(11)).toEqual({ newLine: 11, oldLine: 13, oldPosition: 13 });
     // No new lines 12+ in this hunk
     expect(result.has(12)).toBe(false);
   });
@@ -75,14 +137,14 @@ describe("parseDiffLines", () => {
     const result = parseDiffLines(diff);
 
     // context start: new=100, old=100
-    expect(result.get(100)).toEqual({ newLine: 100, oldLine: 100 });
+    expect(result.get(100)).toEqual({ newLine: 100, oldLine: 100, oldPosition: 100 });
     // 2 removed lines: old advances to 102 → 103 (consumes old 101, 102)
     // 3 added lines: new=101,102,103 — all with oldLine null
-    expect(result.get(101)).toEqual({ newLine: 101, oldLine: null });
-    expect(result.get(102)).toEqual({ newLine: 102, oldLine: null });
-    expect(result.get(103)).toEqual({ newLine: 103, oldLine: null });
+    expect(result.get(101)).toEqual({ newLine: 101, oldLine: null, oldPosition: 103 });
+    expect(result.get(102)).toEqual({ newLine: 102, oldLine: null, oldPosition: 103 });
+    expect(result.get(103)).toEqual({ newLine: 103, oldLine: null, oldPosition: 103 });
     // context end: new=104, old=103
-    expect(result.get(104)).toEqual({ newLine: 104, oldLine: 103 });
+    expect(result.get(104)).toEqual({ newLine: 104, oldLine: 103, oldPosition: 103 });
   });
 
   it("handles multiple hunks independently", () => {
@@ -101,17 +163,17 @@ describe("parseDiffLines", () => {
     const result = parseDiffLines(diff);
 
     // First hunk: context lines 5-7
-    expect(result.get(5)).toEqual({ newLine: 5, oldLine: 5 });
-    expect(result.get(7)).toEqual({ newLine: 7, oldLine: 7 });
+    expect(result.get(5)).toEqual({ newLine: 5, oldLine: 5, oldPosition: 5 });
+    expect(result.get(7)).toEqual({ newLine: 7, oldLine: 7, oldPosition: 7 });
 
     // Second hunk: starts at new=50, old=50
-    expect(result.get(50)).toEqual({ newLine: 50, oldLine: 50 });
+    expect(result.get(50)).toEqual({ newLine: 50, oldLine: 50, oldPosition: 50 });
     // added line: new=51, old=null
-    expect(result.get(51)).toEqual({ newLine: 51, oldLine: null });
+    expect(result.get(51)).toEqual({ newLine: 51, oldLine: null, oldPosition: 51 });
     // ctx E: new=52, old=51 (old didn't advance past added)
-    expect(result.get(52)).toEqual({ newLine: 52, oldLine: 51 });
+    expect(result.get(52)).toEqual({ newLine: 52, oldLine: 51, oldPosition: 51 });
     // ctx F: new=53, old=52
-    expect(result.get(53)).toEqual({ newLine: 53, oldLine: 52 });
+    expect(result.get(53)).toEqual({ newLine: 53, oldLine: 52, oldPosition: 52 });
   });
 
   it("handles hunk headers with single-line counts (@@ -N +M @@)", () => {
@@ -124,7 +186,7 @@ describe("parseDiffLines", () => {
     const result = parseDiffLines(diff);
 
     // added line at new=1
-    expect(result.get(1)).toEqual({ newLine: 1, oldLine: null });
+    expect(result.get(1)).toEqual({ newLine: 1, oldLine: null, oldPosition: 2 });
   });
 
   it("reproduces the real-world OesOrderManagementStack.cs scenario", () => {
@@ -167,12 +229,12 @@ describe("parseDiffLines", () => {
     const result = parseDiffLines(diff);
 
     // Context lines
-    expect(result.get(22)).toEqual({ newLine: 22, oldLine: 22 });
-    expect(result.get(23)).toEqual({ newLine: 23, oldLine: 23 });
+    expect(result.get(22)).toEqual({ newLine: 22, oldLine: 22, oldPosition: 22 });
+    expect(result.get(23)).toEqual({ newLine: 23, oldLine: 23, oldPosition: 23 });
     // Replaced line: the + line is "added" → oldLine null
-    expect(result.get(24)).toEqual({ newLine: 24, oldLine: null });
+    expect(result.get(24)).toEqual({ newLine: 24, oldLine: null, oldPosition: 25 });
     // Context after: old consumed 22,23,24(removed) → old=25; new=25
-    expect(result.get(25)).toEqual({ newLine: 25, oldLine: 25 });
+    expect(result.get(25)).toEqual({ newLine: 25, oldLine: 25, oldPosition: 25 });
   });
 
   it("ignores lines before the first hunk header", () => {
@@ -189,9 +251,9 @@ describe("parseDiffLines", () => {
 
     const result = parseDiffLines(diff);
 
-    expect(result.get(1)).toEqual({ newLine: 1, oldLine: 1 });
-    expect(result.get(2)).toEqual({ newLine: 2, oldLine: null });
-    expect(result.get(3)).toEqual({ newLine: 3, oldLine: 2 });
+    expect(result.get(1)).toEqual({ newLine: 1, oldLine: 1, oldPosition: 1 });
+    expect(result.get(2)).toEqual({ newLine: 2, oldLine: null, oldPosition: 2 });
+    expect(result.get(3)).toEqual({ newLine: 3, oldLine: 2, oldPosition: 2 });
   });
 
   it("position object for context line includes old_line", () => {
@@ -375,3 +437,715 @@ describe("computeOldLine", () => {
     expect(computeOldLine(diff, 20)).toBe(19);
   });
 });
+
+describe("setQueryParam", () => {
+  it("adds or replaces a query parameter", () => {
+    expect(setQueryParam("/projects/1/notes", "per_page", "100")).toBe("/projects/1/notes?per_page=100");
+    expect(setQueryParam("/projects/1/jobs?scope[]=failed&page=2", "page", "3")).toBe(
+      "/projects/1/jobs?scope[]=failed&page=3",
+    );
+  });
+});
+
+describe("nextPagePath", () => {
+  it("follows the Link header", () => {
+    const headers = new Headers({
+      link:
+        '<https://gitlab.example.com/api/v4/projects/1/notes?page=1&per_page=100>; rel="first", ' +
+        '<https://gitlab.example.com/api/v4/projects/1/notes?id_after=42&per_page=100>; rel="next"',
+    });
+    expect(nextPagePath("/projects/1/notes?per_page=100", headers)).toBe(
+      "/projects/1/notes?id_after=42&per_page=100",
+    );
+  });
+
+  it("falls back to X-Next-Page", () => {
+    const headers = new Headers({ "x-next-page": "2" });
+    expect(nextPagePath("/projects/1/notes?per_page=100", headers)).toBe(
+      "/projects/1/notes?per_page=100&page=2",
+    );
+  });
+
+  it("stops on the last page", () => {
+    expect(nextPagePath("/projects/1/notes?page=3", new Headers({ "x-next-page": "" }))).toBeUndefined();
+    expect(nextPagePath("/projects/1/notes", new Headers())).toBeUndefined();
+  });
+});
+
+describe("GitLabClient pagination", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("fetches every page of a list", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get("page") ?? "1");
+      const notes = Array.from({ length: page < 3 ? 100 : 5 }, (_, i) => ({
+        id: (page - 1) * 100 + i,
+        body: `note ${i}`,
+      }));
+      return new Response(JSON.stringify(notes), {
+        status: 200,
+        headers: { "x-next-page": page < 3 ? String(page + 1) : "" },
+      });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = makeClient();
+    const notes = await client.getMergeRequestNotes(42, 7);
+
+    expect(notes).toHaveLength(205);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://gitlab.example.com/api/v4/projects/42/merge_requests/7/notes?per_page=100",
+      "https://gitlab.example.com/api/v4/projects/42/merge_requests/7/notes?per_page=100&page=2",
+      "https://gitlab.example.com/api/v4/projects/42/merge_requests/7/notes?per_page=100&page=3",
+    ]);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("retries rate limits and rejected requests for every method", () => {
+    for (const method of ["GET", "POST", "PUT", "DELETE"]) {
+      expect(isRetryableStatus(method, 429)).toBe(true);
+      expect(isRetryableStatus(method, 502)).toBe(true);
+      expect(isRetryableStatus(method, 503)).toBe(true);
+    }
+  });
+
+  it("retries other server errors only for idempotent methods", () => {
+    expect(isRetryableStatus("GET", 500)).toBe(true);
+    expect(isRetryableStatus("DELETE", 504)).toBe(true);
+    expect(isRetryableStatus("POST", 500)).toBe(false);
+    expect(isRetryableStatus("POST", 504)).toBe(false);
+  });
+
+  it("never retries client errors", () => {
+    expect(isRetryableStatus("GET", 401)).toBe(false);
+    expect(isRetryableStatus("GET", 404)).toBe(false);
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("backs off exponentially with jitter", () => {
+    expect(retryDelayMs(0, null, () => 0)).toBe(500);
+    expect(retryDelayMs(0, null, () => 1)).toBe(1_000);
+    expect(retryDelayMs(3, null, () => 1)).toBe(8_000);
+    expect(retryDelayMs(10, null, () => 1)).toBe(30_000);
+  });
+
+  it("respects Retry-After in seconds or as a date", () => {
+    const now = Date.parse("2026-02-16T10:00:00Z");
+    expect(retryDelayMs(0, "7", () => 0, now)).toBe(7_000);
+    expect(retryDelayMs(0, "Mon, 16 Feb 2026 10:00:12 GMT", () => 0, now)).toBe(12_000);
+  });
+});
+
+describe("GitLabClient retries", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("retries a rate-limited POST after Retry-After", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response("slow down", { status: 429, headers: { "retry-after": "3" } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 5 }), { status: 201 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const pending = makeClient({ gitlabMaxRetries: 2 }).createDraftNote(42, 7, "note");
+    await vi.advanceTimersByTimeAsync(2_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toEqual({ id: 5 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after the configured retries with a typed error", async () => {
+    const fetchMock = vi.fn(async () => new Response("bad gateway", { status: 502, statusText: "Bad Gateway" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const pending = makeClient({ gitlabMaxRetries: 2 }).getMergeRequestNotes(42, 7);
+    const assertion = expect(pending).rejects.toMatchObject({
+      name: "GitLabApiError",
+      status: 502,
+      method: "GET",
+      endpoint: "/projects/42/merge_requests/7/notes?per_page=100",
+      body: "bad gateway",
+    });
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry auth errors", async () => {
+    const fetchMock = vi.fn(async () => new Response("401 Unauthorized", { status: 401, statusText: "Unauthorized" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const error = await makeClient({ gitlabMaxRetries: 2 }).getMergeRequest(42, 7).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(GitLabApiError);
+    expect((error as GitLabApiError).isAuthError).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not resend a POST after a network error", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(makeClient({ gitlabMaxRetries: 2 }).postMergeRequestNote(42, 7, "hi")).rejects.toThrow(
+      "GitLab request POST /projects/42/merge_requests/7/notes failed: fetch failed",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("buildLineCode", () => {
+  it("hashes the file path and appends the old and new line", () => {
+    const hash = createHash("sha1").update("src/app.ts").digest("hex");
+    expect(buildLineCode("src/app.ts", 12, 14)).toBe(`${hash}_12_14`);
+  });
+});
+
+describe("buildLineRange", () => {
+  const diff = [
+    "@@ -10,4 +10,5 @@",
+    " context",
+    "-removed",
+    "+added 1",
+    "+added 2",
+    " context after",
+    " last",
+  ].join("\n");
+  const hash = createHash("sha1").update("src/app.ts").digest("hex");
+
+  it("covers context and added lines with GitLab line codes", () => {
+    expect(buildLineRange("src/app.ts", diff, 12, 10, 12)).toEqual({
+      start: { line_code: `${hash}_10_10`, type: "old", old_line: 10, new_line: 10 },
+      // Added lines use the old line they were inserted before
+      end: { line_code: `${hash}_12_12`, type: "new", old_line: null, new_line: 12 },
+    });
+  });
+
+  it("computes lines outside the hunks from the hunk offsets", () => {
+    expect(buildLineRange("src/app.ts", diff, 20, 19, 20)?.end).toEqual({
+      line_code: `${hash}_19_20`,
+      type: "old",
+      old_line: 19,
+      new_line: 20,
+    });
+  });
+
+  it("ignores single-line ranges and ranges that don't contain the anchor", () => {
+    expect(buildLineRange("src/app.ts", diff, 11, 11, 11)).toBeUndefined();
+    expect(buildLineRange("src/app.ts", diff, 13, 10, 12)).toBeUndefined();
+  });
+});
+
+describe("postReview line ranges", () => {
+  const diffVersion = makeDiffVersion({
+    diffs: [makeDiffFile({ diff: "@@ -1,2 +1,4 @@\n const a = 1;\n+const b = 2;\n+const c = 3;\n const d = 4;" })],
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("sends the range, and retries on the anchor line if GitLab rejects it", async () => {
+    const positions: DiffPosition[] = [];
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === "GET") {
+        return new Response("[]", { status: 200 });
+      }
+      if (url.endsWith("/draft_notes")) {
+        const { position } = JSON.parse(init.body as string) as { position: DiffPosition };
+        positions.push(position);
+        if (position.line_range) {
+          return new Response('{"message":"400 Bad request - line_range"}', { status: 400 });
+        }
+        return new Response('{"id":1}', { status: 201 });
+      }
+      return new Response('{"id":2}', { status: 201 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = makeClient();
+    const result = await client.postReview(
+      42,
+      7,
+      "summary",
+      [{ file: "src/app.ts", line: 3, startLine: 2, endLine: 3, body: "Merge these", severity: "info" }],
+      diffVersion,
+    );
+
+    expect(result).toMatchObject({ posted: 1, failed: 0 });
+    expect(positions).toHaveLength(2);
+    expect(positions[0]!.new_line).toBe(3);
+    expect(positions[0]!.line_range?.start).toMatchObject({ type: "new", new_line: 2 });
+    expect(positions[0]!.line_range?.end).toMatchObject({ type: "new", new_line: 3 });
+    expect(positions[1]!.line_range).toBeUndefined();
+  });
+});
+
+describe("parseRemovedLines", () => {
+  it("tracks the old-side line numbers of removed lines", () => {
+    const diff = [
+      "@@ -10,5 +10,4 @@",
+      " context",
+      "-removed 1",
+      "-removed 2",
+      "+added",
+      " context after",
+      "@@ -40,2 +39,1 @@",
+      "-removed 3",
+      " context",
+    ].join("\n");
+
+    expect(parseRemovedLines(diff)).toEqual(new Set([11, 12, 40]));
+  });
+
+  it("handles deleted files", () => {
+    expect(parseRemovedLines("@@ -1,2 +0,0 @@\n-line 1\n-line 2")).toEqual(new Set([1, 2]));
+  });
+});
+
+describe("findDiffLineText", () => {
+  const diff = [
+    "@@ -10,4 +10,4 @@",
+    " context",
+    "-removed",
+    "+added",
+    " context after",
+    "\\ No newline at end of file",
+  ].join("\n");
+
+  it("looks up new-side and old-side lines without their prefix", () => {
+    expect(findDiffLineText(diff, 11, "new")).toBe("added");
+    expect(findDiffLineText(diff, 11, "old")).toBe("removed");
+    expect(findDiffLineText(diff, 12, "new")).toBe("context after");
+    expect(findDiffLineText(diff, 12, "old")).toBe("context after");
+  });
+
+  it("returns undefined outside the hunks", () => {
+    expect(findDiffLineText(diff, 13, "new")).toBeUndefined();
+    expect(findDiffLineText(diff, 9, "old")).toBeUndefined();
+  });
+});
+
+describe("buildOldSidePosition", () => {
+  const diffFile = makeDiffFile({
+    diff: "@@ -10,4 +10,3 @@\n context\n-if (!user) return;\n+const x = 1;\n context after",
+  });
+  const version = { base_commit_sha: "base", head_commit_sha: "head", start_commit_sha: "start" };
+
+  it("positions removed lines with old_line only", () => {
+    const position = buildOldSidePosition(diffFile, 11, version);
+    expect(position).toMatchObject({ old_path: "src/app.ts", old_line: 11 });
+    expect(position?.new_line).toBeUndefined();
+  });
+
+  it("positions unchanged lines with both lines", () => {
+    expect(buildOldSidePosition(diffFile, 12, version)).toMatchObject({ old_line: 12, new_line: 12 });
+  });
+
+  it("returns undefined for old lines outside the diff", () => {
+    expect(buildOldSidePosition(diffFile, 200, version)).toBeUndefined();
+  });
+});
+
+describe("postReview on removed lines", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("posts old-side comments without a suggestion", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const drafts: Array<{ note: string; position?: DiffPosition }> = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === "GET") return new Response("[]", { status: 200 });
+      if (url.endsWith("/draft_notes")) drafts.push(JSON.parse(init.body as string));
+      return new Response('{"id":1}', { status: 201 });
+    }));
+
+    const client = makeClient();
+    await client.postReview(
+      42,
+      7,
+      "summary",
+      [{
+        file: "src/app.ts",
+        line: 2,
+        side: "old",
+        body: "This null check was still needed",
+        severity: "critical",
+        suggestion: "if (!user) return;",
+      }],
+      makeDiffVersion({
+        diffs: [makeDiffFile({
+          diff: "@@ -1,3 +1,2 @@\n function load(user) {\n-  if (!user) return;\n   return user.id;",
+        })],
+      }),
+    );
+
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]!.position).toMatchObject({ old_line: 2 });
+    expect(drafts[0]!.position?.new_line).toBeUndefined();
+    expect(drafts[0]!.note).toBe(
+      "🔴 **CRITICAL**: This null check was still needed\n\n" +
+      buildFingerprintMarker(computeCommentFingerprint({
+        file: "src/app.ts",
+        snippet: "  if (!user) return;",
+        body: "This null check was still needed",
+      })),
+    );
+  });
+});
+
+describe("file-level comments", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("detects files without line-level diffs", () => {
+    expect(hasLineLevelDiff(makeDiffFile({}))).toBe(true);
+    expect(hasLineLevelDiff(makeDiffFile({ too_large: true, diff: "" }))).toBe(false);
+    expect(hasLineLevelDiff(makeDiffFile({ collapsed: true, diff: "" }))).toBe(false);
+    expect(hasLineLevelDiff(makeDiffFile({ diff: "Binary files a/logo.png and b/logo.png differ\n" }))).toBe(false);
+  });
+
+  it("attaches whole-file remarks and comments on oversized files to the file", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const drafts: Array<{ note: string; position?: DiffPosition }> = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === "GET") return new Response("[]", { status: 200 });
+      if (url.endsWith("/draft_notes")) drafts.push(JSON.parse(init.body as string));
+      return new Response('{"id":1}', { status: 201 });
+    }));
+
+    const client = makeClient();
+    await client.postReview(
+      42,
+      7,
+      "summary",
+      [
+        { file: "src/app.ts", body: "This module should be split", severity: "info" },
+        {
+          file: "src/generated.ts",
+          line: 5000,
+          body: "Unbounded loop",
+          severity: "warning",
+          suggestion: "for (const x of xs.slice(0, 100)) {",
+        },
+      ],
+      makeDiffVersion({
+        real_size: "2",
+        diffs: [
+          makeDiffFile(),
+          makeDiffFile({ old_path: "src/generated.ts", new_path: "src/generated.ts", too_large: true, diff: "" }),
+        ],
+      }),
+    );
+
+    expect(drafts).toEqual([
+      {
+        note: "ℹ️ **INFO**: This module should be split\n\n" +
+          buildFingerprintMarker(computeCommentFingerprint({
+            file: "src/app.ts",
+            snippet: "",
+            body: "This module should be split",
+          })),
+        position: {
+          position_type: "file",
+          base_sha: "base000000",
+          head_sha: "head000000",
+          start_sha: "start00000",
+          old_path: "src/app.ts",
+          new_path: "src/app.ts",
+        },
+      },
+      {
+        // No suggestion block: there is no line to apply it to
+        note: "**Line 5000** – 🟡 **WARNING**: Unbounded loop\n\n" +
+          buildFingerprintMarker(computeCommentFingerprint({
+            file: "src/generated.ts",
+            snippet: "line 5000",
+            body: "Unbounded loop",
+          })),
+        position: expect.objectContaining({ position_type: "file", new_path: "src/generated.ts" }),
+      },
+    ]);
+  });
+});
+
+describe("postReview fingerprints", () => {
+  const diffVersion = makeDiffVersion({
+    id: 2,
+    diffs: [makeDiffFile({
+      old_path: "src/db.ts",
+      new_path: "src/db.ts",
+      // The query moved from line 3 to line 5 since the earlier review
+      diff: "@@ -1,3 +1,5 @@\n import { db } from './db';\n+\n+// Look up a user\n export function find(id) {\n   return db.query(`SELECT * FROM users WHERE id = ${id}`);",
+    })],
+  });
+
+  function stubFetch(existingNoteBody: string) {
+    const drafts: Array<{ note: string }> = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === "GET") {
+        const body = new URL(url).pathname.endsWith("/discussions")
+          ? [{ id: "d1", notes: [{ id: 1, body: existingNoteBody }] }]
+          : [];
+        return new Response(JSON.stringify(body), { status: 200 });
+      }
+      if (url.endsWith("/draft_notes")) drafts.push(JSON.parse(init.body as string));
+      return new Response('{"id":1}', { status: 201 });
+    }));
+    return drafts;
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("skips a finding whose fingerprint was already posted, even on a shifted line", async () => {
+    // Posted by an earlier review on line 3, with different wording
+    const earlier = buildFingerprintMarker(computeCommentFingerprint({
+      file: "src/db.ts",
+      snippet: "  return db.query(`SELECT * FROM users WHERE id = ${id}`);",
+      category: "sql-injection",
+    }));
+    const drafts = stubFetch(`🔴 **CRITICAL**: SQL injection via id\n\n${earlier}`);
+
+    const result = await makeClient().postReview(42, 7, "summary", [{
+      file: "src/db.ts",
+      line: 5,
+      body: "Interpolating `id` into the query allows SQL injection",
+      severity: "critical",
+      category: "sql-injection",
+    }], diffVersion);
+
+    expect(result).toMatchObject({ posted: 0, skipped: 1 });
+    expect(drafts).toHaveLength(0);
+  });
+
+  it("posts a finding of another category on the same line", async () => {
+    const earlier = buildFingerprintMarker(computeCommentFingerprint({
+      file: "src/db.ts",
+      snippet: "  return db.query(`SELECT * FROM users WHERE id = ${id}`);",
+      category: "sql-injection",
+    }));
+    const drafts = stubFetch(`🔴 **CRITICAL**: SQL injection via id\n\n${earlier}`);
+
+    const result = await makeClient().postReview(42, 7, "summary", [{
+      file: "src/db.ts",
+      line: 5,
+      body: "Select only the columns you need",
+      severity: "info",
+      category: "select-star",
+    }], diffVersion);
+
+    expect(result).toMatchObject({ posted: 1, skipped: 0 });
+    expect(drafts[0]!.note).toContain("<!-- copilot-review:fingerprint=");
+    expect(drafts[0]!.note).not.toContain(earlier);
+  });
+
+  it("replies on the bot's open thread instead of posting the finding again", async () => {
+    const earlier = buildFingerprintMarker(computeCommentFingerprint({
+      file: "src/db.ts",
+      snippet: "  return db.query(`SELECT * FROM users WHERE id = ${id}`);",
+      category: "sql-injection",
+    }));
+    const writes: Array<{ url: string; body?: Record<string, unknown> }> = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === "GET") {
+        const body = new URL(url).pathname.endsWith("/discussions")
+          ? [{
+            id: "d1",
+            notes: [{
+              id: 1,
+              body: `🔴 **CRITICAL**: SQL injection via id\n\n${earlier}`,
+              author: { username: "copilot-reviewer" },
+              resolvable: true,
+              resolved: false,
+            }],
+          }]
+          : [];
+        return new Response(JSON.stringify(body), { status: 200 });
+      }
+      writes.push({ url, body: init.body ? JSON.parse(init.body as string) : undefined });
+      return new Response('{"id":1}', { status: 201 });
+    }));
+    const client = makeClient({ gitlabBotUsername: "copilot-reviewer" });
+
+    const result = await client.postReview(42, 7, "summary", [{
+      file: "src/db.ts",
+      line: 5,
+      body: "SQL injection",
+      severity: "critical",
+      category: "sql-injection",
+    }], diffVersion);
+
+    expect(result).toMatchObject({ posted: 0, skipped: 1, resolved: 0, stillApplies: 1 });
+    expect(writes.map((w) => new URL(w.url).pathname.split("/merge_requests/7")[1])).toEqual([
+      "/draft_notes",
+      "/draft_notes/bulk_publish",
+      "/notes",
+    ]);
+    expect(writes[0]!.body).toMatchObject({ in_reply_to_discussion_id: "d1", resolve_discussion: false });
+  });
+
+  it("skips repeated findings within one review", async () => {
+    const drafts = stubFetch("");
+    const comment = {
+      file: "src/db.ts",
+      line: 5,
+      body: "SQL injection",
+      severity: "critical" as const,
+      category: "sql-injection",
+    };
+
+    const result = await makeClient().postReview(
+      42, 7, "summary", [comment, { ...comment, body: "Same issue, reworded" }], diffVersion,
+    );
+
+    expect(result).toMatchObject({ posted: 1, skipped: 1 });
+    expect(drafts).toHaveLength(1);
+  });
+});
+
+describe("postReview summary note", () => {
+  const diffVersion = makeDiffVersion({ id: 3, real_size: "0" });
+
+  function stubFetch(updateStatus: number) {
+    const writes: string[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+      if (init.method === "GET") return new Response("[]", { status: 200 });
+      writes.push(`${init.method} ${new URL(url).pathname.replace("/api/v4/projects/42/merge_requests/7", "")}`);
+      if (init.method === "PUT") {
+        return new Response(updateStatus === 200 ? '{"id":55}' : '{"message":"404 Not found"}', { status: updateStatus });
+      }
+      return new Response('{"id":56}', { status: 201 });
+    }));
+    return writes;
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("edits the previous summary note in place", async () => {
+    const writes = stubFetch(200);
+
+    const result = await makeClient().postReview(42, 7, "summary", [], diffVersion, { summaryNoteId: 55 });
+
+    expect(writes).toEqual(["PUT /notes/55"]);
+    expect(result.summaryNoteId).toBe(55);
+  });
+
+  it("posts a new summary when the previous one is gone", async () => {
+    const writes = stubFetch(404);
+
+    const result = await makeClient().postReview(42, 7, "summary", [], diffVersion, { summaryNoteId: 55 });
+
+    expect(writes).toEqual(["PUT /notes/55", "POST /notes"]);
+    expect(result.summaryNoteId).toBe(56);
+  });
+});
+
+describe("postReview draft cleanup", () => {
+  const diffVersion = makeDiffVersion({ id: 4 });
+  const comment = { file: "src/app.ts", line: 1, body: "Unused import", severity: "info" as const };
+
+  /** Fake draft_notes endpoints backed by an in-memory list */
+  function stubDrafts(initialDrafts: number[], publishStatus = 204) {
+    const drafts = [...initialDrafts];
+    const writes: string[] = [];
+    let nextId = 100;
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: RequestInit) => {
+      const path = new URL(url).pathname.replace("/api/v4/projects/42/merge_requests/7", "");
+      if (init.method === "GET") {
+        const body = path === "/draft_notes" ? drafts.map((id) => ({ id, note: "draft" })) : [];
+        return new Response(JSON.stringify(body), { status: 200 });
+      }
+      writes.push(`${init.method} ${path}`);
+      if (init.method === "DELETE") {
+        drafts.splice(drafts.indexOf(Number(path.split("/").pop())), 1);
+        return new Response(null, { status: 204 });
+      }
+      if (path === "/draft_notes/bulk_publish") {
+        return new Response(publishStatus === 204 ? null : '{"message":"error"}', { status: publishStatus });
+      }
+      if (path === "/draft_notes") drafts.push(nextId);
+      return new Response(JSON.stringify({ id: nextId++ }), { status: 201 });
+    }));
+    return { drafts, writes };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("deletes drafts left by a crashed run before creating new ones", async () => {
+    const { writes } = stubDrafts([7, 8]);
+
+    await makeClient().postReview(42, 7, "summary", [comment], diffVersion);
+
+    expect(writes).toEqual([
+      "DELETE /draft_notes/7",
+      "DELETE /draft_notes/8",
+      "POST /draft_notes",
+      "POST /draft_notes/bulk_publish",
+      "POST /notes",
+    ]);
+  });
+
+  it("rolls back its own drafts when publishing fails", async () => {
+    const { drafts, writes } = stubDrafts([], 500);
+
+    await expect(
+      makeClient().postReview(42, 7, "summary", [comment], diffVersion),
+    ).rejects.toThrow("GitLab API error: 500");
+
+    expect(writes).toEqual([
+      "POST /draft_notes",
+      "POST /draft_notes/bulk_publish",
+      "DELETE /draft_notes/100",
+    ]);
+    expect(drafts).toEqual([]);
+  });
+});
@@ -1,11 +1,27 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
 import type { Config } from "./config.js";
+import { DryRunRecorder, dryRunTargetKey, type DryRunAction } from "./dry-run.js";
+import { buildFingerprintMarker, computeCommentFingerprint, extractFingerprints } from "./fingerprint.js";
+import { findOpenBotThreads, followUpBotThreads } from "./thread-followup.js";
 import type {
   MergeRequestDiffVersion,
   MergeRequestDiffVersionDetail,
   DiffFile,
   DiffPosition,
+  LineRange,
+  LineRangeEndpoint,
   ReviewComment,
   MergeRequestCommentContext,
+  PipelineJob,
+  RepositoryCompare,
+  AwardEmoji,
+  AwardableTarget,
+  MergeRequestApprovals,
+  MergeRequestDiscussion,
+  DraftNote,
+  CommitStatus,
 } from "./types.js";
 
 // ─── Diff line parser ───────────────────────────────────────────────────────
@@ -15,6 +31,11 @@ export interface DiffLineInfo {
   newLine: number;
   /** The old-side line number (null for added lines, set for context lines) */
   oldLine: number | null;
+  /**
+   * GitLab's old-side position: equals oldLine for context lines; for added
+   * lines, the old line they were inserted before. Part of the line_code.
+   */
+  oldPosition: number;
 }
 
 /**
@@ -45,14 +66,18 @@ export function parseDiffLines(diff: string): Map<number, DiffLineInfo> {
 
     if (line.startsWith("+")) {
       // Added line — only on new side
-      lines.set(currentNewLine, { newLine: currentNewLine, oldLine: null });
+      lines.set(currentNewLine, { newLine: currentNewLine, oldLine: null, oldPosition: currentOldLine });
       currentNewLine++;
     } else if (line.startsWith("-")) {
       // Removed line — only on old side, don't increment new line counter
       currentOldLine++;
     } else {
       // Context line — present on both sides
-      lines.set(currentNewLine, { newLine: currentNewLine, oldLine: currentOldLine });
+      lines.set(currentNewLine, {
+        newLine: currentNewLine,
+        oldLine: currentOldLine,
+        oldPosition: currentOldLine,
+      });
       currentNewLine++;
       currentOldLine++;
     }
@@ -61,6 +86,81 @@ export function parseDiffLines(diff: string): Map<number, DiffLineInfo> {
   return lines;
 }
 
+/**
+ * Parse a unified diff to extract the old-side line numbers of removed (`-`)
+ * lines, which only exist in the old version.
+ *
+ * Comments on removed lines are positioned with old_line only.
+ */
+export function parseRemovedLines(diff: string): Set<number> {
+  const lines = new Set<number>();
+  let inHunk = false;
+  let currentOldLine = 0;
+
+  for (const line of diff.split("\n")) {
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (hunkMatch) {
+      inHunk = true;
+      currentOldLine = parseInt(hunkMatch[1]!, 10);
+      continue;
+    }
+
+    // Deleted files have a new side starting at 0, so track hunks explicitly
+    if (!inHunk) continue;
+
+    if (line.startsWith("-")) {
+      lines.add(currentOldLine);
+      currentOldLine++;
+    } else if (!line.startsWith("+")) {
+      // Context line — advances the old side too
+      currentOldLine++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Text of a line inside the diff hunks, without its `+`/`-`/space prefix.
+ * `side` picks the numbering: "new" matches added and context lines, "old"
+ * removed and context lines. Returns undefined outside the hunks.
+ */
+export function findDiffLineText(
+  diff: string,
+  line: number,
+  side: "old" | "new",
+): string | undefined {
+  let inHunk = false;
+  let currentOldLine = 0;
+  let currentNewLine = 0;
+
+  for (const text of diff.split("\n")) {
+    const hunkMatch = text.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkMatch) {
+      inHunk = true;
+      currentOldLine = parseInt(hunkMatch[1]!, 10);
+      currentNewLine = parseInt(hunkMatch[2]!, 10);
+      continue;
+    }
+    if (!inHunk || text.startsWith("\\")) continue; // "\ No newline at end of file"
+
+    const content = text.slice(1);
+    if (text.startsWith("+")) {
+      if (side === "new" && currentNewLine === line) return content;
+      currentNewLine++;
+    } else if (text.startsWith("-")) {
+      if (side === "old" && currentOldLine === line) return content;
+      currentOldLine++;
+    } else {
+      if ((side === "new" ? currentNewLine : currentOldLine) === line) return content;
+      currentNewLine++;
+      currentOldLine++;
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Compute old_line for a new_line that is OUTSIDE any diff hunk.
  * These are unchanged context lines — old_line = new_line adjusted by
@@ -88,41 +188,370 @@ export function computeOldLine(diff: string, newLine: number): number {
   return newLine + offset;
 }
 
+/**
+ * Look up a new-side line: from the diff hunks if it is there, otherwise as
+ * an unchanged line outside the hunks (old line from the hunk offsets).
+ */
+export function resolveDiffLine(
+  diff: string,
+  diffLines: Map<number, DiffLineInfo>,
+  newLine: number,
+): DiffLineInfo {
+  const lineInfo = diffLines.get(newLine);
+  if (lineInfo) return lineInfo;
+  const oldLine = computeOldLine(diff, newLine);
+  return { newLine, oldLine, oldPosition: oldLine };
+}
+
+/**
+ * GitLab's line_code: `<sha1 of the file path>_<old position>_<new line>`.
+ */
+export function buildLineCode(filePath: string, oldPosition: number, newLine: number): string {
+  const fileHash = createHash("sha1").update(filePath).digest("hex");
+  return `${fileHash}_${oldPosition}_${newLine}`;
+}
+
+function buildLineRangeEndpoint(filePath: string, lineInfo: DiffLineInfo): LineRangeEndpoint {
+  return {
+    line_code: buildLineCode(filePath, lineInfo.oldPosition, lineInfo.newLine),
+    type: lineInfo.oldLine === null ? "new" : "old",
+    old_line: lineInfo.oldLine,
+    new_line: lineInfo.newLine,
+  };
+}
+
+/**
+ * Build `position.line_range` for a comment covering new-side lines
+ * startLine..endLine, so the diff UI highlights the whole range. Returns
+ * undefined unless the range spans several lines and contains the anchor.
+ */
+export function buildLineRange(
+  filePath: string,
+  diff: string,
+  anchorLine: number,
+  startLine: number,
+  endLine: number,
+): LineRange | undefined {
+  if (startLine >= endLine || anchorLine < startLine || anchorLine > endLine) {
+    return undefined;
+  }
+
+  const diffLines = parseDiffLines(diff);
+  return {
+    start: buildLineRangeEndpoint(filePath, resolveDiffLine(diff, diffLines, startLine)),
+    end: buildLineRangeEndpoint(filePath, resolveDiffLine(diff, diffLines, endLine)),
+  };
+}
+
+/**
+ * Position for a comment on an old-side line: a removed line gets old_line
+ * only; an unchanged line in the hunks gets both lines. Undefined when the
+ * old line is not shown in the diff.
+ */
+export function buildOldSidePosition(
+  diffFile: DiffFile,
+  oldLine: number,
+  diffVersion: Pick<MergeRequestDiffVersionDetail, "base_commit_sha" | "head_commit_sha" | "start_commit_sha">,
+): DiffPosition | undefined {
+  const base = {
+    position_type: "text" as const,
+    base_sha: diffVersion.base_commit_sha,
+    head_sha: diffVersion.head_commit_sha,
+    start_sha: diffVersion.start_commit_sha,
+    old_path: diffFile.old_path,
+    new_path: diffFile.new_path,
+  };
+
+  if (parseRemovedLines(diffFile.diff).has(oldLine)) {
+    return { ...base, old_line: oldLine };
+  }
+
+  for (const lineInfo of parseDiffLines(diffFile.diff).values()) {
+    if (lineInfo.oldLine === oldLine) {
+      return { ...base, old_line: oldLine, new_line: lineInfo.newLine };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a diff file has hunks that line positions can point into. Binary
+ * files have no hunks, and GitLab leaves too large and collapsed diffs empty.
+ */
+export function hasLineLevelDiff(diffFile: DiffFile): boolean {
+  return !diffFile.too_large && !diffFile.collapsed && /^@@ /m.test(diffFile.diff);
+}
+
+/**
+ * Position for a comment on a whole file rather than on one of its lines.
+ */
+export function buildFilePosition(
+  diffFile: DiffFile,
+  diffVersion: Pick<MergeRequestDiffVersionDetail, "base_commit_sha" | "head_commit_sha" | "start_commit_sha">,
+): DiffPosition {
+  return {
+    position_type: "file",
+    base_sha: diffVersion.base_commit_sha,
+    head_sha: diffVersion.head_commit_sha,
+    start_sha: diffVersion.start_commit_sha,
+    old_path: diffFile.old_path,
+    new_path: diffFile.new_path,
+  };
+}
+
+/** `file:line`, or just `file` for whole-file remarks */
+function formatCommentLocation(comment: ReviewComment): string {
+  return comment.line === undefined ? comment.file : `${comment.file}:${comment.line}`;
+}
+
+/**
+ * Source text the comment is anchored to, for its fingerprint: the diff line
+ * when it is in a hunk, otherwise the line from the reviewed checkout.
+ * Falls back to the line number when neither is available.
+ */
+async function readCommentSnippet(
+  comment: ReviewComment,
+  diffFile: DiffFile | undefined,
+  repoDir: string | undefined,
+): Promise<string> {
+  if (comment.line === undefined) return "";
+  const side = comment.side ?? "new";
+
+  const diffText = diffFile && findDiffLineText(diffFile.diff, comment.line, side);
+  if (diffText !== undefined) return diffText;
+
+  if (repoDir && side === "new") {
+    try {
+      const content = await readFile(join(repoDir, comment.file), "utf-8");
+      const text = content.split("\n")[comment.line - 1];
+      if (text !== undefined) return text;
+    } catch {
+      // Deleted or unreadable — fall through
+    }
+  }
+  return `line ${comment.line}`;
+}
+
+// ─── Pagination ─────────────────────────────────────────────────────────────
+
+/** Largest page size GitLab allows */
+const PAGE_SIZE = 100;
+
+/**
+ * Set a query parameter on an API path, replacing an existing value.
+ */
+export function setQueryParam(path: string, name: string, value: string): string {
+  const queryStart = path.indexOf("?");
+  const base = queryStart === -1 ? path : path.slice(0, queryStart);
+  const query = queryStart === -1 ? "" : path.slice(queryStart + 1);
+  const params = query.split("&").filter((p) => p && !p.startsWith(`${name}=`));
+  params.push(`${name}=${encodeURIComponent(value)}`);
+  return `${base}?${params.join("&")}`;
+}
+
+/**
+ * Work out the path of the next page of a list response, or undefined on
+ * the last page. Follows the `Link: <…>; rel="next"` header, which keyset
+ * pagination also uses, and falls back to `X-Next-Page` (offset pagination).
+ */
+export function nextPagePath(path: string, headers: Headers): string | undefined {
+  const link = headers.get("link");
+  const nextLink = link?.split(",").find((part) => /rel="next"/.test(part));
+  const nextUrl = nextLink?.match(/<([^>]+)>/)?.[1];
+  if (nextUrl) {
+    const url = new URL(nextUrl);
+    return url.pathname.replace(/^.*?\/api\/v4/, "") + url.search;
+  }
+
+  const nextPage = headers.get("x-next-page");
+  return nextPage ? setQueryParam(path, "page", nextPage) : undefined;
+}
+
+// ─── Errors & retries ───────────────────────────────────────────────────────
+
+/**
+ * A non-2xx response from GitLab. `status` tells auth problems (401/403)
+ * apart from missing objects (404) and transient failures (429/5xx).
+ */
+export class GitLabApiError extends Error {
+  readonly status: number;
+  readonly method: string;
+  /** API path relative to /api/v4, or "/graphql" */
+  readonly endpoint: string;
+  /** Response body as returned by GitLab */
+  readonly body: string;
+
+  constructor(status: number, statusText: string, method: string, endpoint: string, body: string) {
+    super(`GitLab API error: ${status} ${statusText} (${method} ${endpoint}) – ${body}`);
+    this.name = "GitLabApiError";
+    this.status = status;
+    this.method = method;
+    this.endpoint = endpoint;
+    this.body = body;
+  }
+
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+/** Repeating these has no extra effect, so any failure can be retried */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * Whether a failed response is worth retrying. 429, 502 and 503 mean GitLab
+ * turned the request away before handling it, so even a POST can be sent
+ * again without creating duplicates. Other 5xx responses may come after the
+ * write happened, so only idempotent requests retry those.
+ */
+export function isRetryableStatus(method: string, status: number): boolean {
+  if (status === 429 || status === 502 || status === 503) return true;
+  return status >= 500 && IDEMPOTENT_METHODS.has(method);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the `Retry-After` header
+ * (seconds or HTTP date) if GitLab sent one, otherwise exponential backoff
+ * with jitter, so parallel jobs don't retry in lockstep.
+ */
+export function retryDelayMs(
+  attempt: number,
+  retryAfter: string | null,
+  random: () => number = Math.random,
+  now: number = Date.now(),
+): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface PostReviewOptions {
+  /** Clone of the reviewed head, for reading lines outside the diff hunks */
+  repoDir?: string;
+  /** Existing summary note to edit instead of posting a new one */
+  summaryNoteId?: number;
+}
+
 /**
  * GitLab REST API client for merge request operations.
  */
 export class GitLabClient {
   private baseUrl: string;
+  private graphqlUrl: string;
   private token: string;
+  private maxRetries: number;
+  private requestTimeoutMs: number;
+  /** Identifies the bot's own threads from earlier reviews */
+  private botUsername?: string;
+  /** Set in DRY_RUN mode: writes are recorded here instead of sent */
+  private dryRun?: DryRunRecorder;
 
   constructor(config: Config) {
     this.baseUrl = `${config.gitlabUrl}/api/v4`;
+    this.graphqlUrl = `${config.gitlabUrl}/api/graphql`;
     this.token = config.gitlabToken;
+    this.maxRetries = config.gitlabMaxRetries;
+    this.requestTimeoutMs = config.gitlabRequestTimeoutMs;
+    this.botUsername = config.gitlabBotUsername;
+    if (config.dryRun) {
+      this.dryRun = new DryRunRecorder(config.dryRunOutputDir);
+    }
   }
 
-  private async request<T>(
+  private async send(
     method: string,
     path: string,
     body?: Record<string, unknown>,
-  ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
-    const headers: Record<string, string> = {
+  ): Promise<Response> {
+    // Safety net: every write must go through write() so it is recorded
+    if (this.dryRun && method !== "GET") {
+      throw new Error(`DRY_RUN: refusing to send ${method} ${path}`);
+    }
+
+    return this.fetchWithRetry(method, `${this.baseUrl}${path}`, path, {
       "PRIVATE-TOKEN": this.token,
       "Content-Type": "application/json",
-    };
+    }, body);
+  }
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-    });
+  /**
+   * Send a request with a timeout, retrying transient failures (see
+   * isRetryableStatus). Network errors and timeouts are only retried for
+   * idempotent requests: a POST may have gone through before the connection
+   * dropped. Throws GitLabApiError for the final non-2xx response.
+   */
+  private async fetchWithRetry(
+    method: string,
+    url: string,
+    endpoint: string,
+    headers: Record<string, string>,
+    body?: Record<string, unknown>,
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.maxRetries;
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: body ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(this.requestTimeoutMs),
+        });
+      } catch (err) {
+        const reason = err instanceof Error && err.name === "TimeoutError"
+          ? `timed out after ${this.requestTimeoutMs}ms`
+          : `failed: ${err instanceof Error ? err.message : String(err)}`;
+        if (!canRetry || !IDEMPOTENT_METHODS.has(method)) {
+          throw new Error(`GitLab request ${method} ${endpoint} ${reason}`, { cause: err });
+        }
+        const delay = retryDelayMs(attempt, null);
+        console.warn(`[gitlab] ${method} ${endpoint} ${reason}, retrying in ${delay}ms…`);
+        await sleep(delay);
+        continue;
+      }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(
-        `GitLab API error: ${response.status} ${response.statusText} – ${text}`,
+      if (response.ok) {
+        return response;
+      }
+
+      const error = new GitLabApiError(
+        response.status,
+        response.statusText,
+        method,
+        endpoint,
+        await response.text(),
+      );
+      if (!canRetry || !isRetryableStatus(method, response.status)) {
+        throw error;
+      }
+      const delay = retryDelayMs(attempt, response.headers.get("retry-after"));
+      console.warn(
+        `[gitlab] ${method} ${endpoint} returned ${response.status}, ` +
+        `retrying in ${delay}ms (${attempt + 1}/${this.maxRetries})…`,
       );
+      await sleep(delay);
     }
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: Record<string, unknown>,
+  ): Promise<T> {
+    const response = await this.send(method, path, body);
 
     // Some endpoints (e.g. bulk_publish) return 204 No Content
     const contentLength = response.headers.get("content-length");
@@ -138,6 +567,49 @@ export class GitLabClient {
     return JSON.parse(text) as T;
   }
 
+  /**
+   * Send a write request, or only record it (with the exact body) in DRY_RUN
+   * mode. Recorded writes resolve to undefined, like a 204 response.
+   */
+  private async write<T>(
+    action: DryRunAction,
+    method: string,
+    path: string,
+    body?: Record<string, unknown>,
+    dryRunTarget?: string,
+  ): Promise<T> {
+    if (this.dryRun) {
+      await this.dryRun.record({ action, method, endpoint: path, body }, dryRunTarget);
+      return undefined as T;
+    }
+    return this.request<T>(method, path, body);
+  }
+
+  /**
+   * GET every page of a list endpoint. Unpaginated, GitLab returns only the
+   * first 20 items.
+   */
+  private async requestAll<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = setQueryParam(path, "per_page", String(PAGE_SIZE));
+
+    while (next) {
+      const response = await this.send("GET", next);
+      items.push(...(await response.json() as T[]));
+      next = nextPagePath(next, response.headers);
+    }
+
+    return items;
+  }
+
+  /**
+   * GET an endpoint that returns plain text (e.g. job traces).
+   */
+  private async requestText(path: string): Promise<string> {
+    const response = await this.send("GET", path);
+    return response.text();
+  }
+
   // ─── Merge Request Diffs ──────────────────────────────────────────────────
 
   /**
@@ -146,8 +618,7 @@ export class GitLabClient {
   async findUserByUsername(
     username: string,
   ): Promise<{ id: number; username: string } | undefined> {
-    const users = await this.request<Array<{ id: number; username: string }>>(
-      "GET",
+    const users = await this.requestAll<{ id: number; username: string }>(
       `/users?username=${encodeURIComponent(username)}`,
     );
     return users.find((u) => u.username === username);
@@ -161,13 +632,27 @@ export class GitLabClient {
     mrIid: number,
     reviewerIds: number[],
   ): Promise<void> {
-    await this.request(
+    await this.write(
+      "update_reviewers",
       "PUT",
       `/projects/${projectId}/merge_requests/${mrIid}`,
       { reviewer_ids: reviewerIds },
     );
   }
 
+  /**
+   * Get a merge request's metadata (author, state, head SHA…).
+   */
+  async getMergeRequest(
+    projectId: number,
+    mrIid: number,
+  ): Promise<{ iid: number; author: { id: number; username: string }; sha: string }> {
+    return this.request<{ iid: number; author: { id: number; username: string }; sha: string }>(
+      "GET",
+      `/projects/${projectId}/merge_requests/${mrIid}`,
+    );
+  }
+
   /**
    * Get all diff versions for a merge request.
    */
@@ -175,8 +660,7 @@ export class GitLabClient {
     projectId: number,
     mrIid: number,
   ): Promise<MergeRequestDiffVersion[]> {
-    return this.request<MergeRequestDiffVersion[]>(
-      "GET",
+    return this.requestAll<MergeRequestDiffVersion>(
       `/projects/${projectId}/merge_requests/${mrIid}/versions`,
     );
   }
@@ -212,6 +696,80 @@ export class GitLabClient {
     return this.getMergeRequestVersionDetail(projectId, mrIid, latest.id);
   }
 
+  /**
+   * Compare two commits directly (`from..to`, not from their merge base).
+   */
+  async compareCommits(
+    projectId: number,
+    from: string,
+    to: string,
+  ): Promise<RepositoryCompare> {
+    return this.request<RepositoryCompare>(
+      "GET",
+      `/projects/${projectId}/repository/compare` +
+      `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&straight=true&unidiff=true`,
+    );
+  }
+
+  // ─── Repository Files ──────────────────────────────────────────────────────
+
+  /**
+   * Get a file's content at a commit, or undefined if it doesn't exist there.
+   */
+  async getRawFile(
+    projectId: number,
+    filePath: string,
+    ref: string,
+  ): Promise<string | undefined> {
+    try {
+      return await this.requestText(
+        `/projects/${projectId}/repository/files/${encodeURIComponent(filePath)}/raw` +
+        `?ref=${encodeURIComponent(ref)}`,
+      );
+    } catch (err) {
+      if (err instanceof GitLabApiError && err.status === 404) return undefined;
+      throw err;
+    }
+  }
+
+  /**
+   * Get a project's clone URL and path (e.g. the fork an MR comes from).
+   */
+  async getProject(
+    projectId: number,
+  ): Promise<{ id: number; path_with_namespace: string; http_url_to_repo: string }> {
+    return this.request<{ id: number; path_with_namespace: string; http_url_to_repo: string }>(
+      "GET",
+      `/projects/${projectId}`,
+    );
+  }
+
+  // ─── Pipelines & Jobs ──────────────────────────────────────────────────────
+
+  /**
+   * Get the jobs of a pipeline, optionally filtered by status (e.g. "failed").
+   */
+  async getPipelineJobs(
+    projectId: number,
+    pipelineId: number,
+    scope?: string,
+  ): Promise<PipelineJob[]> {
+    const query = scope ? `?scope[]=${encodeURIComponent(scope)}` : "";
+    return this.requestAll<PipelineJob>(
+      `/projects/${projectId}/pipelines/${pipelineId}/jobs${query}`,
+    );
+  }
+
+  /**
+   * Get the raw log (trace) of a job.
+   */
+  async getJobTrace(
+    projectId: number,
+    jobId: number,
+  ): Promise<string> {
+    return this.requestText(`/projects/${projectId}/jobs/${jobId}/trace`);
+  }
+
   // ─── Posting Comments ─────────────────────────────────────────────────────
 
   /**
@@ -221,23 +779,40 @@ export class GitLabClient {
     projectId: number,
     mrIid: number,
     body: string,
-  ): Promise<void> {
-    await this.request(
+  ): Promise<{ id: number } | undefined> {
+    return this.write<{ id: number } | undefined>(
+      "note",
       "POST",
       `/projects/${projectId}/merge_requests/${mrIid}/notes`,
       { body },
     );
   }
 
+  /**
+   * Replace the body of an existing merge request note.
+   */
+  async updateMergeRequestNote(
+    projectId: number,
+    mrIid: number,
+    noteId: number,
+    body: string,
+  ): Promise<{ id: number } | undefined> {
+    return this.write<{ id: number } | undefined>(
+      "update_note",
+      "PUT",
+      `/projects/${projectId}/merge_requests/${mrIid}/notes/${noteId}`,
+      { body },
+    );
+  }
+
   /**
    * Get existing discussions (inline diff comments) on a merge request.
    */
   async getMergeRequestDiscussions(
     projectId: number,
     mrIid: number,
-  ): Promise<Array<{ id: string; notes: Array<{ body: string }> }>> {
-    return this.request<Array<{ id: string; notes: Array<{ body: string }> }>>(
-      "GET",
+  ): Promise<MergeRequestDiscussion[]> {
+    return this.requestAll<MergeRequestDiscussion>(
       `/projects/${projectId}/merge_requests/${mrIid}/discussions`,
     );
   }
@@ -250,8 +825,7 @@ export class GitLabClient {
     mrIid: number,
     discussionId: string,
   ): Promise<Array<{ id: number; body: string; author: { id: number; name: string; username: string }; created_at: string }>> {
-    return this.request<Array<{ id: number; body: string; author: { id: number; name: string; username: string }; created_at: string }>>(
-      "GET",
+    return this.requestAll<{ id: number; body: string; author: { id: number; name: string; username: string }; created_at: string }>(
       `/projects/${projectId}/merge_requests/${mrIid}/discussions/${discussionId}/notes`,
     );
   }
@@ -265,7 +839,8 @@ export class GitLabClient {
     discussionId: string,
     body: string,
   ): Promise<void> {
-    await this.request(
+    await this.write(
+      "discussion_reply",
       "POST",
       `/projects/${projectId}/merge_requests/${mrIid}/discussions/${discussionId}/notes`,
       { body },
@@ -278,9 +853,8 @@ export class GitLabClient {
   async getMergeRequestNotes(
     projectId: number,
     mrIid: number,
-  ): Promise<Array<{ id: number; body: string }>> {
-    return this.request<Array<{ id: number; body: string }>>(
-      "GET",
+  ): Promise<Array<{ id: number; body: string; author?: { username?: string } }>> {
+    return this.requestAll<{ id: number; body: string; author?: { username?: string } }>(
       `/projects/${projectId}/merge_requests/${mrIid}/notes`,
     );
   }
@@ -294,7 +868,7 @@ export class GitLabClient {
     mrIid: number,
   ): Promise<MergeRequestCommentContext[]> {
     const [discussions, notes] = await Promise.all([
-      this.request<Array<{
+      this.requestAll<{
         id: string;
         notes: Array<{
           body: string;
@@ -308,11 +882,10 @@ export class GitLabClient {
             old_line?: number | null;
           };
         }>;
-      }>>(
-        "GET",
+      }>(
         `/projects/${projectId}/merge_requests/${mrIid}/discussions`,
       ),
-      this.request<Array<{
+      this.requestAll<{
         body: string;
         created_at: string;
         system?: boolean;
@@ -323,8 +896,7 @@ export class GitLabClient {
           new_line?: number | null;
           old_line?: number | null;
         };
-      }>>(
-        "GET",
+      }>(
         `/projects/${projectId}/merge_requests/${mrIid}/notes`,
       ),
     ]);
@@ -375,13 +947,270 @@ export class GitLabClient {
     body: string,
     position: DiffPosition,
   ): Promise<void> {
-    await this.request(
+    await this.write(
+      "diff_discussion",
       "POST",
       `/projects/${projectId}/merge_requests/${mrIid}/discussions`,
       { body, position },
     );
   }
 
+  // ─── Issue Discussions ─────────────────────────────────────────────────────
+
+  /**
+   * Get all notes in a specific issue discussion thread.
+   */
+  async getIssueDiscussionNotes(
+    projectId: number,
+    issueIid: number,
+    discussionId: string,
+  ): Promise<Array<{ id: number; body: string; author: { id: number; name: string; username: string }; created_at: string }>> {
+    const discussion = await this.request<{
+      id: string;
+      notes: Array<{ id: number; body: string; author: { id: number; name: string; username: string }; created_at: string }>;
+    }>(
+      "GET",
+      `/projects/${projectId}/issues/${issueIid}/discussions/${discussionId}`,
+    );
+    return discussion.notes;
+  }
+
+  /**
+   * Post a reply to an existing issue discussion thread.
+   */
+  async replyToIssueDiscussion(
+    projectId: number,
+    issueIid: number,
+    discussionId: string,
+    body: string,
+  ): Promise<void> {
+    await this.write(
+      "discussion_reply",
+      "POST",
+      `/projects/${projectId}/issues/${issueIid}/discussions/${discussionId}/notes`,
+      { body },
+    );
+  }
+
+  // ─── Commit Discussions ────────────────────────────────────────────────────
+
+  /**
+   * Get the diff of a single commit.
+   */
+  async getCommitDiff(
+    projectId: number,
+    sha: string,
+  ): Promise<DiffFile[]> {
+    return this.requestAll<DiffFile>(
+      `/projects/${projectId}/repository/commits/${sha}/diff?unidiff=true`,
+    );
+  }
+
+  /**
+   * Get all notes in a specific commit discussion thread.
+   */
+  async getCommitDiscussionNotes(
+    projectId: number,
+    sha: string,
+    discussionId: string,
+  ): Promise<Array<{ id: number; body: string; author: { id: number; name: string; username: string }; created_at: string }>> {
+    const discussion = await this.request<{
+      id: string;
+      notes: Array<{ id: number; body: string; author: { id: number; name: string; username: string }; created_at: string }>;
+    }>(
+      "GET",
+      `/projects/${projectId}/repository/commits/${sha}/discussions/${discussionId}`,
+    );
+    return discussion.notes;
+  }
+
+  /**
+   * Post a reply to an existing commit discussion thread.
+   */
+  async replyToCommitDiscussion(
+    projectId: number,
+    sha: string,
+    discussionId: string,
+    body: string,
+  ): Promise<void> {
+    await this.write(
+      "discussion_reply",
+      "POST",
+      `/projects/${projectId}/repository/commits/${sha}/discussions/${discussionId}/notes`,
+      { body },
+    );
+  }
+
+  // ─── Award Emoji ───────────────────────────────────────────────────────────
+
+  private awardEmojiPath(target: AwardableTarget): string {
+    switch (target.kind) {
+      case "merge_request":
+        return `/projects/${target.projectId}/merge_requests/${target.mrIid}/award_emoji`;
+      case "merge_request_note":
+        return `/projects/${target.projectId}/merge_requests/${target.mrIid}/notes/${target.noteId}/award_emoji`;
+      case "issue_note":
+        return `/projects/${target.projectId}/issues/${target.issueIid}/notes/${target.noteId}/award_emoji`;
+    }
+  }
+
+  /**
+   * Get the award emoji (reactions) on an MR or a note.
+   */
+  async getAwardEmoji(target: AwardableTarget): Promise<AwardEmoji[]> {
+    return this.requestAll<AwardEmoji>(this.awardEmojiPath(target));
+  }
+
+  /**
+   * Award an emoji to an MR or a note as the token's user. GitLab rejects a
+   * second award of the same emoji by the same user.
+   */
+  async awardEmoji(
+    target: AwardableTarget,
+    name: string,
+  ): Promise<AwardEmoji | undefined> {
+    return this.write<AwardEmoji | undefined>(
+      "award_emoji",
+      "POST",
+      this.awardEmojiPath(target),
+      { name },
+    );
+  }
+
+  /**
+   * Remove an award emoji from an MR or a note.
+   */
+  async deleteAwardEmoji(
+    target: AwardableTarget,
+    awardId: number,
+  ): Promise<void> {
+    await this.write(
+      "delete_award_emoji",
+      "DELETE",
+      `${this.awardEmojiPath(target)}/${awardId}`,
+    );
+  }
+
+  // ─── Commit Statuses ───────────────────────────────────────────────────────
+
+  /**
+   * Create or update a commit status (e.g. `copilot-review`) on a commit.
+   * Statuses with the same name and ref replace each other. `mrIid` only
+   * groups the write with its MR in DRY_RUN previews.
+   */
+  async setCommitStatus(
+    projectId: number,
+    mrIid: number,
+    sha: string,
+    status: CommitStatus,
+  ): Promise<void> {
+    await this.write(
+      "commit_status",
+      "POST",
+      `/projects/${projectId}/statuses/${sha}`,
+      { ...status },
+      dryRunTargetKey(`/projects/${projectId}/merge_requests/${mrIid}`),
+    );
+  }
+
+  // ─── Approvals ─────────────────────────────────────────────────────────────
+
+  /**
+   * Get who has approved a merge request.
+   */
+  async getMergeRequestApprovals(
+    projectId: number,
+    mrIid: number,
+  ): Promise<MergeRequestApprovals> {
+    return this.request<MergeRequestApprovals>(
+      "GET",
+      `/projects/${projectId}/merge_requests/${mrIid}/approvals`,
+    );
+  }
+
+  /**
+   * Approve a merge request as the token's user. GitLab rejects the approval
+   * if the MR head is no longer `sha`, so code pushed after the review is
+   * never approved by accident.
+   */
+  async approveMergeRequest(
+    projectId: number,
+    mrIid: number,
+    sha: string,
+  ): Promise<void> {
+    await this.write(
+      "approve",
+      "POST",
+      `/projects/${projectId}/merge_requests/${mrIid}/approve`,
+      { sha },
+    );
+  }
+
+  /**
+   * Revoke the token user's approval of a merge request.
+   */
+  async unapproveMergeRequest(
+    projectId: number,
+    mrIid: number,
+  ): Promise<void> {
+    await this.write(
+      "unapprove",
+      "POST",
+      `/projects/${projectId}/merge_requests/${mrIid}/unapprove`,
+    );
+  }
+
+  /**
+   * Mark a reviewer as having requested changes, which blocks merging like
+   * GitLab's "Request changes" review action. REST has no endpoint for
+   * reviewer states, so this goes through GraphQL.
+   */
+  async requestMergeRequestChanges(
+    projectId: number,
+    projectPath: string,
+    mrIid: number,
+    userId: number,
+  ): Promise<void> {
+    const query =
+      "mutation($projectPath: ID!, $iid: String!, $userId: UserID!, $reviewerState: MergeRequestReviewState!) {\n" +
+      "  mergeRequestUpdateReviewerState(input: { projectPath: $projectPath, iid: $iid, userId: $userId, reviewerState: $reviewerState }) {\n" +
+      "    errors\n" +
+      "  }\n" +
+      "}";
+    const variables = {
+      projectPath,
+      iid: String(mrIid),
+      userId: `gid://gitlab/User/${userId}`,
+      reviewerState: "REQUESTED_CHANGES",
+    };
+
+    if (this.dryRun) {
+      await this.dryRun.record(
+        { action: "reviewer_state", method: "POST", endpoint: "/graphql", body: { query, variables } },
+        dryRunTargetKey(`/projects/${projectId}/merge_requests/${mrIid}`),
+      );
+      return;
+    }
+
+    const response = await this.fetchWithRetry("POST", this.graphqlUrl, "/graphql", {
+      "Authorization": `Bearer ${this.token}`,
+      "Content-Type": "application/json",
+    }, { query, variables });
+
+    // GraphQL reports failures in the body of a 200 response
+    const result = await response.json() as {
+      errors?: Array<{ message: string }>;
+      data?: { mergeRequestUpdateReviewerState?: { errors: string[] } | null };
+    };
+    const errors = [
+      ...(result.errors ?? []).map((e) => e.message),
+      ...(result.data?.mergeRequestUpdateReviewerState?.errors ?? []),
+    ];
+    if (errors.length > 0) {
+      throw new Error(`GitLab GraphQL error: ${errors.join("; ")}`);
+    }
+  }
+
   // ─── Draft Notes (Review Submission) ──────────────────────────────────────
 
   /**
@@ -392,13 +1221,33 @@ export class GitLabClient {
     mrIid: number,
     note: string,
   ): Promise<{ id: number }> {
-    return this.request<{ id: number }>(
+    return this.write<{ id: number }>(
+      "draft_note",
       "POST",
       `/projects/${projectId}/merge_requests/${mrIid}/draft_notes`,
       { note },
     );
   }
 
+  /**
+   * Create a draft reply to an existing discussion, optionally resolving the
+   * thread when the review is published.
+   */
+  async createDraftReply(
+    projectId: number,
+    mrIid: number,
+    discussionId: string,
+    note: string,
+    resolveDiscussion: boolean,
+  ): Promise<{ id: number }> {
+    return this.write<{ id: number }>(
+      "draft_reply",
+      "POST",
+      `/projects/${projectId}/merge_requests/${mrIid}/draft_notes`,
+      { note, in_reply_to_discussion_id: discussionId, resolve_discussion: resolveDiscussion },
+    );
+  }
+
   /**
    * Create an inline diff draft note on a merge request.
    * Position's head_sha/base_sha/start_sha identify the diff version.
@@ -409,13 +1258,70 @@ export class GitLabClient {
     note: string,
     position: DiffPosition,
   ): Promise<{ id: number }> {
-    return this.request<{ id: number }>(
+    return this.write<{ id: number }>(
+      "draft_diff_note",
       "POST",
       `/projects/${projectId}/merge_requests/${mrIid}/draft_notes`,
       { note, position },
     );
   }
 
+  /**
+   * Get the token user's pending draft notes on a merge request. Drafts are
+   * private, so these are only ever the bot's own.
+   */
+  async getDraftNotes(
+    projectId: number,
+    mrIid: number,
+  ): Promise<DraftNote[]> {
+    return this.requestAll<DraftNote>(
+      `/projects/${projectId}/merge_requests/${mrIid}/draft_notes`,
+    );
+  }
+
+  /**
+   * Delete a pending draft note.
+   */
+  async deleteDraftNote(
+    projectId: number,
+    mrIid: number,
+    draftNoteId: number,
+  ): Promise<void> {
+    await this.write(
+      "delete_draft_note",
+      "DELETE",
+      `/projects/${projectId}/merge_requests/${mrIid}/draft_notes/${draftNoteId}`,
+    );
+  }
+
+  /**
+   * Delete all pending draft notes of the bot on a merge request. Best
+   * effort: failures are logged, not thrown.
+   */
+  private async discardDraftNotes(
+    projectId: number,
+    mrIid: number,
+    description: string,
+  ): Promise<void> {
+    let drafts: DraftNote[];
+    try {
+      drafts = await this.getDraftNotes(projectId, mrIid);
+    } catch (err) {
+      console.warn("[gitlab] Could not list pending draft notes:", err);
+      return;
+    }
+    if (drafts.length === 0) return;
+
+    console.log(`[gitlab] Deleting ${drafts.length} ${description}`);
+    for (const draft of drafts) {
+      try {
+        await this.deleteDraftNote(projectId, mrIid, draft.id);
+      } catch (err) {
+        console.warn(`[gitlab] Could not delete draft note ${draft.id}:`, err);
+      }
+    }
+  }
+
   /**
    * Publish all pending draft notes for a merge request.
    * This is GitLab's equivalent of "Submit Review" with the "Comment" action.
@@ -424,7 +1330,8 @@ export class GitLabClient {
     projectId: number,
     mrIid: number,
   ): Promise<void> {
-    await this.request(
+    await this.write(
+      "publish_drafts",
       "POST",
       `/projects/${projectId}/merge_requests/${mrIid}/draft_notes/bulk_publish`,
     );
@@ -434,11 +1341,19 @@ export class GitLabClient {
    * Post all review comments to a merge request using draft notes,
    * then bulk-publish them as a single "Submit Review" (Comment action).
    *
-   * - Fetches existing discussions/notes to avoid duplicates
+   * - Fetches existing discussions/notes to avoid duplicates: a comment is
+   *   skipped when an existing note carries its fingerprint (file, anchored
+   *   code and category), so findings survive line shifts between versions.
    * - Inline comments are created as draft diff notes.
+   * - The bot's open threads from earlier reviews get a draft reply: resolved
+   *   as "Addressed in <sha>" when their code is gone, or "still applies"
+   *   when this review reported the same finding again.
    * - Comments that can't be placed inline fall back to general draft notes.
+   * - Pending drafts left by a crashed run are deleted first; if this run
+   *   fails before publishing, its own drafts are deleted again.
    * - All drafts are published in one shot via bulk_publish.
-   * - Summary is posted separately as a simple note (not resolvable).
+   * - Summary is posted separately as a simple note (not resolvable), or
+   *   replaces the body of `options.summaryNoteId`.
    */
   async postReview(
     projectId: number,
@@ -446,14 +1361,26 @@ export class GitLabClient {
     summary: string,
     comments: ReviewComment[],
     diffVersion: MergeRequestDiffVersionDetail,
-  ): Promise<{ posted: number; failed: number; skipped: number }> {
+    options: PostReviewOptions = {},
+  ): Promise<{
+    posted: number;
+    failed: number;
+    skipped: number;
+    resolved: number;
+    stillApplies: number;
+    summaryNoteId?: number;
+  }> {
+    const { repoDir, summaryNoteId } = options;
     let posted = 0;
     let failed = 0;
     let skipped = 0;
 
+    // Drafts left behind by a crashed run would be published with this review
+    await this.discardDraftNotes(projectId, mrIid, "orphaned draft note(s) from an earlier run");
+
     // Fetch existing comments to avoid duplicates
     console.log("[gitlab] Fetching existing comments to avoid duplicates...");
-    let existingDiscussions: Array<{ id: string; notes: Array<{ body: string }> }> = [];
+    let existingDiscussions: MergeRequestDiscussion[] = [];
     let existingNotes: Array<{ id: number; body: string }> = [];
     try {
       existingDiscussions = await this.getMergeRequestDiscussions(projectId, mrIid);
@@ -463,8 +1390,8 @@ export class GitLabClient {
     }
 
     // Check if a comment already exists for a given file/line/body
-    const commentExists = (file: string, line: number, body: string): boolean => {
-      const fileLineKey = `${file}:${line}`;
+    const commentExists = (location: string, body: string): boolean => {
+      const fileLineKey = location;
       for (const discussion of existingDiscussions) {
         for (const note of discussion.notes) {
           if (note.body.includes(fileLineKey) && note.body.includes(body)) {
@@ -480,120 +1407,258 @@ export class GitLabClient {
       return false;
     };
 
-    // Create inline draft notes
-    for (const comment of comments) {
-      try {
-        // Skip duplicates
-        if (commentExists(comment.file, comment.line, comment.body)) {
-          console.log(`[gitlab] Skipping duplicate comment on ${comment.file}:${comment.line}`);
-          skipped++;
-          continue;
-        }
+    // Fingerprints of everything already posted, including earlier comments
+    // of this run
+    const knownFingerprints = new Set(
+      [...existingDiscussions.flatMap((d) => d.notes), ...existingNotes]
+        .flatMap((note) => extractFingerprints(note.body)),
+    );
+    // Fingerprints of every finding in this review, posted or skipped
+    const reviewFingerprints = new Set<string>();
+
+    let resolved = 0;
+    let stillApplies = 0;
+    try {
+      // Create inline draft notes
+      for (const comment of comments) {
+        const location = formatCommentLocation(comment);
+        // Also used by the general-note fallback in the catch below
+        let marker = "";
+        try {
+          // Find the matching diff file
+          const diffFile = diffVersion.diffs.find(
+            (d) => d.new_path === comment.file || d.old_path === comment.file,
+          );
+
+          const fingerprint = computeCommentFingerprint({
+            file: comment.file,
+            snippet: await readCommentSnippet(comment, diffFile, repoDir),
+            category: comment.category,
+            body: comment.body,
+          });
+          reviewFingerprints.add(fingerprint);
 
-        const severityIcon =
-          comment.severity === "critical" ? "🔴" :
-          comment.severity === "warning" ? "🟡" : "ℹ️";
-
-        // Format comment body with suggestion if available
-        let commentBody = `${severityIcon} **${comment.severity.toUpperCase()}**: ${comment.body}`;
-        if (comment.suggestion) {
-          let rangeOffset = "";
-          if (comment.startLine !== undefined && comment.endLine !== undefined) {
-            const beforeOffset = comment.line - comment.startLine;
-            const afterOffset = comment.endLine - comment.line;
-            rangeOffset = `:${beforeOffset > 0 ? "-" : ""}${Math.abs(beforeOffset)}+${afterOffset}`;
+          // Skip duplicates; the text match covers comments posted before
+          // fingerprints existed
+          if (knownFingerprints.has(fingerprint) || commentExists(location, comment.body)) {
+            console.log(`[gitlab] Skipping duplicate comment on ${location}`);
+            await this.dryRun?.record({
+              action: "skipped_duplicate",
+              endpoint: `/projects/${projectId}/merge_requests/${mrIid}/draft_notes`,
+              body: { file: comment.file, line: comment.line, note: comment.body },
+            });
+            skipped++;
+            continue;
           }
-          commentBody += `\n\n\`\`\`suggestion${rangeOffset}\n${comment.suggestion}\n\`\`\``;
-        }
+          knownFingerprints.add(fingerprint);
+          marker = `\n\n${buildFingerprintMarker(fingerprint)}`;
 
-        // Find the matching diff file
-        const diffFile = diffVersion.diffs.find(
-          (d) => d.new_path === comment.file || d.old_path === comment.file,
-        );
+          const severityIcon =
+            comment.severity === "critical" ? "🔴" :
+            comment.severity === "warning" ? "🟡" : "ℹ️";
 
-        if (!diffFile) {
-          console.warn(
-            `[gitlab] File "${comment.file}" not found in diff, creating as general draft note`,
-          );
-          await this.createDraftNote(
-            projectId,
-            mrIid,
-            `**${comment.file}:${comment.line}** – ${commentBody}`,
-          );
-          posted++;
-          continue;
-        }
+          // Format comment body with suggestion if available
+          const plainBody = `${severityIcon} **${comment.severity.toUpperCase()}**: ${comment.body}`;
+          let commentBody = plainBody;
+          // Suggestions replace new-side lines, so they can't apply to removed code
+          if (comment.suggestion && comment.line !== undefined && comment.side !== "old") {
+            let rangeOffset = "";
+            if (comment.startLine !== undefined && comment.endLine !== undefined) {
+              const beforeOffset = comment.line - comment.startLine;
+              const afterOffset = comment.endLine - comment.line;
+              rangeOffset = `:${beforeOffset > 0 ? "-" : ""}${Math.abs(beforeOffset)}+${afterOffset}`;
+            }
+            commentBody += `\n\n\`\`\`suggestion${rangeOffset}\n${comment.suggestion}\n\`\`\``;
+          }
+          commentBody += marker;
 
-        // Verify the comment line exists in the diff hunks
-        const diffLines = parseDiffLines(diffFile.diff);
-        let lineInfo = diffLines.get(comment.line);
-        if (!lineInfo) {
-          // Line is outside diff hunks — unchanged context line.
-          // Compute old_line from cumulative hunk offsets.
-          const oldLine = computeOldLine(diffFile.diff, comment.line);
-          lineInfo = { newLine: comment.line, oldLine };
-          console.log(
-            `[gitlab] Line ${comment.line} not in diff hunks for "${comment.file}", ` +
-            `computed old_line=${oldLine} from hunk offsets`,
-          );
-        }
+          if (!diffFile) {
+            console.warn(
+              `[gitlab] File "${comment.file}" not found in diff, creating as general draft note`,
+            );
+            await this.createDraftNote(
+              projectId,
+              mrIid,
+              `**${location}** – ${commentBody}`,
+            );
+            posted++;
+            continue;
+          }
 
-        // Build position: for context lines, set both old_line and new_line
-        // so GitLab can compute line_code. For added lines, only new_line.
-        const position: DiffPosition = {
-          position_type: "text",
-          base_sha: diffVersion.base_commit_sha,
-          head_sha: diffVersion.head_commit_sha,
-          start_sha: diffVersion.start_commit_sha,
-          old_path: diffFile.old_path,
-          new_path: diffFile.new_path,
-          new_line: lineInfo.newLine,
-          ...(lineInfo.oldLine !== null && { old_line: lineInfo.oldLine }),
-        };
+          // Whole-file remarks, and files without line-level diffs (binary,
+          // too large, collapsed), attach to the file in the Changes tab
+          const oldSidePosition = comment.line !== undefined && comment.side === "old"
+            ? buildOldSidePosition(diffFile, comment.line, diffVersion)
+            : undefined;
+          if (
+            comment.line === undefined ||
+            !hasLineLevelDiff(diffFile) ||
+            (comment.side === "old" && !oldSidePosition)
+          ) {
+            const reason = comment.line === undefined
+              ? "whole-file comment"
+              : !hasLineLevelDiff(diffFile)
+                ? "no line-level diff"
+                : `old line ${comment.line} not in diff`;
+            console.log(`[gitlab] Creating file-level draft note: ${location} (${reason})`);
+            const lineLabel = comment.line === undefined
+              ? ""
+              : `**${comment.side === "old" ? "Old line" : "Line"} ${comment.line}** – `;
+            // Suggestions need a line to apply to
+            await this.createDraftDiffNote(
+              projectId,
+              mrIid,
+              `${lineLabel}${plainBody}${marker}`,
+              buildFilePosition(diffFile, diffVersion),
+            );
+            posted++;
+            continue;
+          }
 
-        const lineType = lineInfo.oldLine !== null ? "context" : "added";
-        console.log(
-          `[gitlab] Creating draft note: ${comment.file}:${comment.line} (${lineType}) ` +
-          `old_line=${lineInfo.oldLine ?? "null"} new_line=${lineInfo.newLine} ` +
-          `head=${diffVersion.head_commit_sha.slice(0, 8)}`,
-        );
-
-        await this.createDraftDiffNote(
-          projectId,
-          mrIid,
-          commentBody,
-          position,
-        );
-        posted++;
-      } catch (err) {
-        console.error(`[gitlab] Failed to create draft note for ${comment.file}:${comment.line}:`, err);
-        failed++;
+          const line = comment.line;
+          if (oldSidePosition) {
+            console.log(
+              `[gitlab] Creating draft note: ${location} (old side) ` +
+              `old_line=${oldSidePosition.old_line} new_line=${oldSidePosition.new_line ?? "null"} ` +
+              `head=${diffVersion.head_commit_sha.slice(0, 8)}`,
+            );
+            await this.createDraftDiffNote(projectId, mrIid, commentBody, oldSidePosition);
+            posted++;
+            continue;
+          }
 
-        // Fallback: create as general draft note
-        try {
-          await this.createDraftNote(
-            projectId,
-            mrIid,
-            `**${comment.file}:${comment.line}** – ${comment.body}`,
+          // Verify the comment line exists in the diff hunks
+          const diffLines = parseDiffLines(diffFile.diff);
+          const lineInfo = resolveDiffLine(diffFile.diff, diffLines, line);
+          if (!diffLines.has(line)) {
+            // Line is outside diff hunks — unchanged context line, with
+            // old_line computed from cumulative hunk offsets.
+            console.log(
+              `[gitlab] Line ${line} not in diff hunks for "${comment.file}", ` +
+              `computed old_line=${lineInfo.oldLine} from hunk offsets`,
+            );
+          }
+
+          // Build position: for context lines, set both old_line and new_line
+          // so GitLab can compute line_code. For added lines, only new_line.
+          const position: DiffPosition = {
+            position_type: "text",
+            base_sha: diffVersion.base_commit_sha,
+            head_sha: diffVersion.head_commit_sha,
+            start_sha: diffVersion.start_commit_sha,
+            old_path: diffFile.old_path,
+            new_path: diffFile.new_path,
+            new_line: lineInfo.newLine,
+            ...(lineInfo.oldLine !== null && { old_line: lineInfo.oldLine }),
+          };
+
+          // Multi-line findings highlight their whole range
+          const lineRange = comment.startLine !== undefined && comment.endLine !== undefined
+            ? buildLineRange(
+              diffFile.deleted_file ? diffFile.old_path : diffFile.new_path,
+              diffFile.diff,
+              line,
+              comment.startLine,
+              comment.endLine,
+            )
+            : undefined;
+          if (lineRange) {
+            position.line_range = lineRange;
+          }
+
+          const lineType = lineInfo.oldLine !== null ? "context" : "added";
+          console.log(
+            `[gitlab] Creating draft note: ${location} (${lineType}) ` +
+            `old_line=${lineInfo.oldLine ?? "null"} new_line=${lineInfo.newLine} ` +
+            (lineRange ? `range=${comment.startLine}-${comment.endLine} ` : "") +
+            `head=${diffVersion.head_commit_sha.slice(0, 8)}`,
           );
+
+          try {
+            await this.createDraftDiffNote(
+              projectId,
+              mrIid,
+              commentBody,
+              position,
+            );
+          } catch (err) {
+            if (!position.line_range) throw err;
+            // Still worth posting on the single anchor line
+            console.warn(
+              `[gitlab] GitLab rejected the line range for ${location}, ` +
+              "retrying without it:",
+              err,
+            );
+            delete position.line_range;
+            await this.createDraftDiffNote(projectId, mrIid, commentBody, position);
+          }
           posted++;
-          failed--; // recovered
-        } catch {
-          // give up on this comment
+        } catch (err) {
+          console.error(`[gitlab] Failed to create draft note for ${location}:`, err);
+          failed++;
+
+          // Fallback: create as general draft note
+          try {
+            await this.createDraftNote(
+              projectId,
+              mrIid,
+              `**${location}** – ${comment.body}${marker}`,
+            );
+            posted++;
+            failed--; // recovered
+          } catch {
+            // give up on this comment
+          }
         }
       }
-    }
 
-    // Publish all draft notes as a single review ("Comment" action)
-    if (posted > 0) {
-      console.log(`[gitlab] Publishing review (${posted} draft note(s))...`);
-      await this.publishAllDraftNotes(projectId, mrIid);
-      console.log("[gitlab] Review submitted via bulk_publish.");
+      if (this.botUsername) {
+        const threads = findOpenBotThreads(existingDiscussions, this.botUsername);
+        const readCurrentFile = async (path: string): Promise<string | undefined> => {
+          const diffFile = diffVersion.diffs.find((d) => d.old_path === path || d.new_path === path);
+          if (diffFile?.deleted_file) return undefined;
+          const currentPath = diffFile?.new_path ?? path;
+          if (!repoDir) {
+            return this.getRawFile(projectId, currentPath, diffVersion.head_commit_sha);
+          }
+          return readFile(join(repoDir, currentPath), "utf-8").catch(() => undefined);
+        };
+        ({ resolved, stillApplies } = await followUpBotThreads(
+          this,
+          { projectId, mrIid, headSha: diffVersion.head_commit_sha },
+          threads,
+          reviewFingerprints,
+          readCurrentFile,
+        ));
+      }
+
+      // Publish all draft notes as a single review ("Comment" action)
+      const drafts = posted + resolved + stillApplies;
+      if (drafts > 0) {
+        console.log(`[gitlab] Publishing review (${drafts} draft note(s))...`);
+        await this.publishAllDraftNotes(projectId, mrIid);
+        console.log("[gitlab] Review submitted via bulk_publish.");
+      }
+    } catch (err) {
+      // Don't leave half a review behind for the next run to publish
+      await this.discardDraftNotes(projectId, mrIid, "draft note(s) of this failed review");
+      throw err;
     }
 
     // Post summary as a separate, non-discussion note (not resolvable)
-    await this.postMergeRequestNote(projectId, mrIid, summary);
+    let summaryNote: { id: number } | undefined;
+    if (summaryNoteId !== undefined) {
+      try {
+        await this.updateMergeRequestNote(projectId, mrIid, summaryNoteId, summary);
+        summaryNote = { id: summaryNoteId };
+        console.log(`[gitlab] Updated summary note ${summaryNoteId}`);
+      } catch (err) {
+        // Deleted in the meantime — post a fresh one
+        console.warn(`[gitlab] Could not update summary note ${summaryNoteId}, posting a new one:`, err);
+      }
+    }
+    summaryNote ??= await this.postMergeRequestNote(projectId, mrIid, summary);
 
-    return { posted, failed, skipped };
+    return { posted, failed, skipped, resolved, stillApplies, summaryNoteId: summaryNote?.id };
   }
 }
@@ -0,0 +1,140 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Config } from "./config.js";
+import { findMergeRequestFork, handleWebhookEvent } from "./handlers.js";
+import type { GitLabProject, MergeRequestWebhookPayload } from "./types.js";
+
+const BOT = "copilot-reviewer";
+
+const gitlab = vi.hoisted(() => ({
+  findUserByUsername: vi.fn(),
+  updateMergeRequestReviewers: vi.fn(),
+  getAwardEmoji: vi.fn(),
+  awardEmoji: vi.fn(),
+  deleteAwardEmoji: vi.fn(),
+  getRawFile: vi.fn(),
+  postMergeRequestNote: vi.fn(),
+}));
+
+const reviewLock = vi.hoisted(() => ({
+  acquireReviewLock: vi.fn(),
+}));
+
+vi.mock("./review-lock.js", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./review-lock.js")>(),
+  acquireReviewLock: reviewLock.acquireReviewLock,
+}));
+
+vi.mock("./gitlab-client.js", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./gitlab-client.js")>(),
+  GitLabClient: vi.fn(function () {
+    return gitlab;
+  }),
+}));
+
+const config = {
+  gitlabBotUsername: BOT,
+  gitlabAutoAddReviewer: true,
+  reviewTriggerLabels: ["ai-review"],
+  pipelineDiagnosis: false,
+} as Config;
+
+function loadMergeRequestFixture(): MergeRequestWebhookPayload {
+  return JSON.parse(
+    readFileSync(join(__dirname, "..", "test", "fixtures", "webhook-reviewer-added.json"), "utf-8"),
+  ) as MergeRequestWebhookPayload;
+}
+
+/** MR update adding `label` while the bot is not a reviewer yet. */
+function makeLabelPayload(label: string): MergeRequestWebhookPayload {
+  const payload = loadMergeRequestFixture();
+  payload.reviewers = payload.reviewers.filter((r) => r.username !== BOT);
+  payload.object_attributes.reviewer_ids = payload.reviewers.map((r) => r.id);
+  payload.changes = { labels: { previous: [], current: [{ id: 1, title: label }] } };
+  return payload;
+}
+
+describe("findMergeRequestFork", () => {
+  function makeFork(): GitLabProject {
+    return {
+      ...loadMergeRequestFixture().object_attributes.source,
+      path_with_namespace: "jdoe/my-project",
+      http_url: "https://gitlab.example.com/jdoe/my-project.git",
+    };
+  }
+
+  it("returns undefined for a same-project MR", () => {
+    expect(findMergeRequestFork(loadMergeRequestFixture().object_attributes)).toBeUndefined();
+  });
+
+  it("returns the source project of a fork MR", () => {
+    const mr = { ...loadMergeRequestFixture().object_attributes, source_project_id: 43, source: makeFork() };
+
+    expect(findMergeRequestFork(mr)).toEqual({
+      httpUrl: "https://gitlab.example.com/jdoe/my-project.git",
+      pathWithNamespace: "jdoe/my-project",
+    });
+  });
+
+  it("compares project paths when the payload has no project IDs", () => {
+    const { source, target } = loadMergeRequestFixture().object_attributes;
+
+    expect(findMergeRequestFork({ source, target })).toBeUndefined();
+    expect(findMergeRequestFork({ source: makeFork(), target })).toMatchObject({
+      pathWithNamespace: "jdoe/my-project",
+    });
+  });
+});
+
+describe("handleWebhookEvent with auto-add reviewer", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    gitlab.findUserByUsername.mockResolvedValue({ id: 99, username: BOT });
+    gitlab.updateMergeRequestReviewers.mockResolvedValue(undefined);
+    gitlab.getAwardEmoji.mockResolvedValue([]);
+    gitlab.awardEmoji.mockResolvedValue({ id: 1 });
+    gitlab.deleteAwardEmoji.mockResolvedValue(undefined);
+    gitlab.postMergeRequestNote.mockResolvedValue({ id: 2 });
+    // Ends the review right after it starts
+    gitlab.getRawFile.mockRejectedValue(new Error("stop here"));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  const logged = () => vi.mocked(console.log).mock.calls.map((call) => String(call[0]));
+
+  it("runs a trigger label's profile review right away", async () => {
+    await handleWebhookEvent(makeLabelPayload("ai-review::security"), config);
+
+    expect(gitlab.updateMergeRequestReviewers).toHaveBeenCalled();
+    expect(logged()).toContainEqual(expect.stringContaining("(profile: security)"));
+    expect(gitlab.getRawFile).toHaveBeenCalled();
+  });
+
+  it("leaves other reviews to the follow-up reviewer event", async () => {
+    await handleWebhookEvent(makeLabelPayload("ai-review"), config);
+
+    expect(gitlab.updateMergeRequestReviewers).toHaveBeenCalled();
+    expect(logged()).toContain(
+      "[review] Reviewer assignment updated. Waiting for follow-up webhook event to run review.",
+    );
+    expect(gitlab.getRawFile).not.toHaveBeenCalled();
+  });
+
+  it("leaves the reactions alone when another review holds the lock", async () => {
+    gitlab.getRawFile.mockResolvedValue(undefined);
+    reviewLock.acquireReviewLock.mockResolvedValue(undefined);
+
+    await handleWebhookEvent(makeLabelPayload("ai-review::security"), config);
+
+    expect(logged()).toContain("[review] Another review of this MR is still running, giving up.");
+    expect(gitlab.awardEmoji).not.toHaveBeenCalled();
+    expect(gitlab.deleteAwardEmoji).not.toHaveBeenCalled();
+  });
+});
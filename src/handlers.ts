@@ -0,0 +1,1250 @@
+/**
+ * Webhook event handlers shared by the CI trigger entrypoint (`index.ts`)
+ * and the standalone HTTP webhook receiver (`server.ts`).
+ */
+
+import type { ClassificationConfig, Config } from "./config.js";
+import { GitLabApiError, GitLabClient } from "./gitlab-client.js";
+import {
+  cloneMergeRequestAtCommit,
+  cloneMergeRequestSource,
+  cloneRepository,
+  cloneRepositoryAtCommit,
+  type MergeRequestSource,
+} from "./git.js";
+import {
+  reviewMergeRequest,
+  replyToComment,
+  forgetSession,
+  diagnosePipelineFailure,
+} from "./reviewer.js";
+import { autoAddBotReviewerIfMissing } from "./auto-add-reviewer.js";
+import { classifyWebhookEvent, type WebhookEvent } from "./webhook.js";
+import { buildCommandHelp, buildCommandInstruction } from "./commands.js";
+import { collectFailedJobLogs } from "./pipeline-diagnosis.js";
+import { acquireReviewLock } from "./review-lock.js";
+import {
+  startProgressReactions,
+  type ProgressOutcome,
+  type ProgressReactions,
+} from "./progress-reactions.js";
+import { submitReviewVerdict } from "./review-verdict.js";
+import { countOpenCriticalThreads } from "./thread-followup.js";
+import { buildReviewStatus, reportReviewStatus, type ReviewStatusTarget } from "./review-status.js";
+import {
+  buildReviewHistoryEntry,
+  buildSummaryNoteBody,
+  findSummaryNote,
+  parseReviewHistory,
+  type ReviewHistoryEntry,
+} from "./review-summary.js";
+import {
+  REVIEW_POLICY_PATH,
+  applyCommentPolicy,
+  countDiffLines,
+  describeReviewPolicy,
+  findPolicySkipReason,
+  isDiffIgnored,
+  loadReviewPolicy,
+} from "./review-policy.js";
+import {
+  buildReviewedShaMarker,
+  findLastReviewedSha,
+  resolveIncrementalDiff,
+} from "./incremental.js";
+import type {
+  BotCommand,
+  DiffFile,
+  GitLabProject,
+  IncrementalDiff,
+  MergeRequestCommentContext,
+  MergeRequestWebhookPayload,
+  NoteWebhookPayload,
+  PipelineWebhookPayload,
+  WebhookPayload,
+} from "./types.js";
+
+/**
+ * Classify a webhook event using the trigger settings from config.
+ */
+export function classifyEvent(
+  payload: WebhookPayload,
+  config: ClassificationConfig,
+): WebhookEvent {
+  return classifyWebhookEvent(payload, config.gitlabBotUsername, {
+    triggerLabels: config.reviewTriggerLabels,
+    pipelineDiagnosis: config.pipelineDiagnosis,
+  });
+}
+
+/**
+ * Auto-add the bot reviewer (if configured), classify the webhook event and
+ * dispatch it to the matching handler.
+ */
+export async function handleWebhookEvent(
+  payload: WebhookPayload,
+  config: Config,
+): Promise<void> {
+  // ─── Classify event ─────────────────────────────────────────────────────
+  const event = classifyEvent(payload, config);
+
+  // ─── Optional: auto-add bot reviewer when missing ───────────────────────
+  if (payload.object_kind === "merge_request") {
+    const wasAutoAdded = await autoAddBotReviewerIfMissing(
+      payload,
+      config,
+      new GitLabClient(config),
+    );
+    // The follow-up reviewer event wouldn't carry a trigger label's
+    // profile, so a profile review runs now (the follow-up then finds the
+    // lock held, or only has to look at what's new)
+    if (wasAutoAdded && !(event.type === "review" && event.profile)) {
+      console.log(
+        "[review] Reviewer assignment updated. Waiting for follow-up webhook event to run review.",
+      );
+      return;
+    }
+  }
+
+  if (event.type === "ignore") {
+    console.log(`[review] Event ignored: ${event.reason}`);
+    return;
+  }
+
+  if (event.type === "comment_reply") {
+    await handleCommentReply(event.payload, config);
+    return;
+  }
+
+  if (event.type === "issue_reply") {
+    await handleIssueReply(event.payload, config);
+    return;
+  }
+
+  if (event.type === "commit_reply") {
+    await handleCommitReply(event.payload, config);
+    return;
+  }
+
+  if (event.type === "command") {
+    await handleBotCommand(event.command, event.payload, config);
+    return;
+  }
+
+  if (event.type === "pipeline_failure") {
+    await handlePipelineFailure(event.payload, config);
+    return;
+  }
+
+  // event.type === "review"
+  await handleMergeRequestReview(event.payload, config, event.profile);
+}
+
+function buildMergeRequestSessionId(projectId: number, mrIid: number): string {
+  return `gitlab-mr-${projectId}-${mrIid}`;
+}
+
+function buildIssueSessionId(projectId: number, issueIid: number): string {
+  return `gitlab-issue-${projectId}-${issueIid}`;
+}
+
+function buildCommitSessionId(projectId: number, sha: string): string {
+  return `gitlab-commit-${projectId}-${sha}`;
+}
+
+/**
+ * Log a failed handler step. Auth errors get a hint, since no retry will fix
+ * them.
+ */
+function logFailure(message: string, err: unknown): void {
+  console.error(message, err);
+  if (err instanceof GitLabApiError && err.isAuthError) {
+    console.error(
+      `[review] GitLab rejected GITLAB_TOKEN (${err.status} on ${err.method} ${err.endpoint}). ` +
+      "Check that the token is valid, has the api scope and can access the project.",
+    );
+  }
+}
+
+/**
+ * The fork an MR comes from, or undefined for same-project MRs. Note
+ * payloads may lack the project IDs, so paths are compared then.
+ */
+export function findMergeRequestFork(mr: {
+  source: GitLabProject;
+  target: GitLabProject;
+  source_project_id?: number;
+  target_project_id?: number;
+}): MergeRequestSource["fork"] {
+  const fromFork = mr.source_project_id !== undefined && mr.target_project_id !== undefined
+    ? mr.source_project_id !== mr.target_project_id
+    : mr.source.path_with_namespace !== mr.target.path_with_namespace;
+  return fromFork
+    ? { httpUrl: mr.source.http_url, pathWithNamespace: mr.source.path_with_namespace }
+    : undefined;
+}
+
+/**
+ * Where to fetch a pipeline's MR from. Pipeline payloads only carry the
+ * project the pipeline ran in, so the other side of a fork MR is looked up.
+ */
+async function resolvePipelineMergeRequestSource(
+  gitlab: GitLabClient,
+  payload: PipelineWebhookPayload,
+): Promise<MergeRequestSource> {
+  const mr = payload.merge_request!;
+  const projectOf = async (id: number) =>
+    id === payload.project.id
+      ? { httpUrl: payload.project.http_url, pathWithNamespace: payload.project.path_with_namespace }
+      : gitlab.getProject(id).then((project) => ({
+        httpUrl: project.http_url_to_repo,
+        pathWithNamespace: project.path_with_namespace,
+      }));
+
+  const target = await projectOf(mr.target_project_id);
+  return {
+    mrIid: mr.iid,
+    targetHttpUrl: target.httpUrl,
+    sourceBranch: mr.source_branch,
+    fork: mr.source_project_id !== mr.target_project_id
+      ? await projectOf(mr.source_project_id)
+      : undefined,
+  };
+}
+
+function buildCiJobLogMessage(): string {
+  const ciJobUrl = process.env["CI_JOB_URL"];
+  return ciJobUrl
+    ? `Check the [CI job log](${ciJobUrl}).`
+    : "Check the CI job log.";
+}
+
+/**
+ * Concatenate all reviewable file diffs (of an MR or a commit) into a single
+ * unified diff.
+ */
+function formatMergeRequestDiff(diffs: DiffFile[]): string {
+  return diffs
+    .filter((d) => !d.too_large && !d.collapsed)
+    .map((d) => `diff --git a/${d.old_path} b/${d.new_path}\n${d.diff}`)
+    .join("\n");
+}
+
+// ─── Comment Reply Handler ──────────────────────────────────────────────────
+
+export interface CommentReplyHandlerOptions {
+  /** Slash-command instruction replacing the default "respond to the thread" ask */
+  instruction?: string;
+  /** Include the whole MR diff as context instead of only the discussed file */
+  includeMergeRequestDiff?: boolean;
+}
+
+export async function handleCommentReply(
+  payload: NoteWebhookPayload,
+  config: Config,
+  opts: CommentReplyHandlerOptions = {},
+): Promise<void> {
+  const projectId = payload.project.id;
+  const mr = payload.merge_request!;
+  const mrIid = mr.iid;
+  const discussionId = payload.object_attributes.discussion_id;
+  const httpUrl = payload.project.http_url;
+  const sourceBranch = mr.source_branch;
+  const sessionId = buildMergeRequestSessionId(projectId, mrIid);
+
+  console.log(
+    `[review] Responding to comment in discussion ${discussionId} ` +
+    `on MR !${mrIid} in ${payload.project.path_with_namespace}`,
+  );
+
+  const gitlab = new GitLabClient(config);
+  let cleanup: (() => Promise<void>) | undefined;
+  const progress = await startProgressReactions(
+    gitlab,
+    { kind: "merge_request_note", projectId, mrIid, noteId: payload.object_attributes.id },
+    config.gitlabBotUsername,
+  );
+  let outcome: ProgressOutcome = "done";
+
+  try {
+    // ─── Fetch full discussion thread ────────────────────────────────────
+    console.log("[review] Fetching discussion thread…");
+    const notes = await gitlab.getDiscussionNotes(projectId, mrIid, discussionId);
+    console.log(`[review] Thread has ${notes.length} message(s)`);
+
+    const threadMessages = notes.map((note) => ({
+      author: note.author.username,
+      body: note.body,
+      createdAt: note.created_at,
+    }));
+
+    // ─── Extract file/line context if inline discussion ──────────────────
+    const position = payload.object_attributes.position;
+    const filePath = position?.new_path;
+    const lineNumber = position?.new_line ?? undefined;
+
+    // ─── Get diff context if available ───────────────────────────────────
+    let diffContext: string | undefined;
+    if (filePath || opts.includeMergeRequestDiff) {
+      try {
+        const diffVersion = await gitlab.getLatestDiffs(projectId, mrIid);
+        if (opts.includeMergeRequestDiff) {
+          diffContext = formatMergeRequestDiff(diffVersion.diffs) || undefined;
+        } else {
+          const diffFile = diffVersion.diffs.find(
+            (d) => d.new_path === filePath || d.old_path === filePath,
+          );
+          if (diffFile) {
+            diffContext = diffFile.diff;
+          }
+        }
+      } catch {
+        console.warn("[review] Could not fetch diff context, continuing without it");
+      }
+    }
+
+    // ─── Clone the MR source ─────────────────────────────────────────────
+    console.log("[review] Cloning target repository…");
+    const clone = await cloneMergeRequestSource(
+      { mrIid, targetHttpUrl: httpUrl, sourceBranch, fork: findMergeRequestFork(mr) },
+      config.gitlabToken,
+    );
+    cleanup = clone.cleanup;
+    console.log(`[review] Cloned to ${clone.dir}`);
+
+    // ─── Generate reply ──────────────────────────────────────────────────
+    console.log("[review] Generating Copilot reply…");
+    const reply = await replyToComment({
+      config,
+      repoDir: clone.dir,
+      sessionId,
+      threadMessages,
+      filePath,
+      lineNumber,
+      diffContext,
+      subject: { kind: "merge_request", title: mr.title, url: mr.url },
+      instruction: opts.instruction,
+    });
+
+    if (!reply) {
+      console.log("[review] Empty reply from Copilot, skipping.");
+      outcome = "skipped";
+      return;
+    }
+
+    // ─── Post reply to the discussion ────────────────────────────────────
+    console.log("[review] Posting reply to discussion…");
+    await gitlab.replyToDiscussion(projectId, mrIid, discussionId, reply);
+    console.log("[review] Reply posted successfully.");
+  } catch (err) {
+    logFailure("[review] Comment reply failed:", err);
+    outcome = "failed";
+
+    // Attempt to notify the discussion
+    try {
+      await gitlab.replyToDiscussion(
+        projectId,
+        mrIid,
+        discussionId,
+        `⚠️ Failed to generate a reply. ${buildCiJobLogMessage()}\n\n` +
+        `\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``,
+      );
+    } catch {
+      // ignore
+    }
+
+    process.exitCode = 1;
+  } finally {
+    await progress.finish(outcome);
+    if (cleanup) {
+      try {
+        await cleanup();
+      } catch (cleanupErr) {
+        console.warn("[review] Clone cleanup failed:", cleanupErr);
+      }
+    }
+  }
+}
+
+// ─── Issue Reply Handler ────────────────────────────────────────────────────
+
+export async function handleIssueReply(
+  payload: NoteWebhookPayload,
+  config: Config,
+): Promise<void> {
+  const projectId = payload.project.id;
+  const issue = payload.issue!;
+  const issueIid = issue.iid;
+  const discussionId = payload.object_attributes.discussion_id;
+  const defaultBranch = payload.project.default_branch;
+  const sessionId = buildIssueSessionId(projectId, issueIid);
+
+  console.log(
+    `[review] Responding to comment in discussion ${discussionId} ` +
+    `on issue #${issueIid} in ${payload.project.path_with_namespace}`,
+  );
+
+  const gitlab = new GitLabClient(config);
+  let cleanup: (() => Promise<void>) | undefined;
+  const progress = await startProgressReactions(
+    gitlab,
+    { kind: "issue_note", projectId, issueIid, noteId: payload.object_attributes.id },
+    config.gitlabBotUsername,
+  );
+  let outcome: ProgressOutcome = "done";
+
+  try {
+    // ─── Fetch full discussion thread ────────────────────────────────────
+    console.log("[review] Fetching issue discussion thread…");
+    const notes = await gitlab.getIssueDiscussionNotes(projectId, issueIid, discussionId);
+    console.log(`[review] Thread has ${notes.length} message(s)`);
+
+    const threadMessages = notes.map((note) => ({
+      author: note.author.username,
+      body: note.body,
+      createdAt: note.created_at,
+    }));
+
+    // ─── Clone the project's default branch ──────────────────────────────
+    console.log(`[review] Cloning target repository (default branch: ${defaultBranch})…`);
+    const clone = await cloneRepository(payload.project.http_url, defaultBranch, config.gitlabToken);
+    cleanup = clone.cleanup;
+    console.log(`[review] Cloned to ${clone.dir}`);
+
+    // ─── Generate reply ──────────────────────────────────────────────────
+    console.log("[review] Generating Copilot reply…");
+    const reply = await replyToComment({
+      config,
+      repoDir: clone.dir,
+      sessionId,
+      threadMessages,
+      subject: {
+        kind: "issue",
+        title: issue.title,
+        url: issue.url,
+        description: issue.description ?? "",
+      },
+    });
+
+    if (!reply) {
+      console.log("[review] Empty reply from Copilot, skipping.");
+      outcome = "skipped";
+      return;
+    }
+
+    // ─── Post reply to the discussion ────────────────────────────────────
+    console.log("[review] Posting reply to issue discussion…");
+    await gitlab.replyToIssueDiscussion(projectId, issueIid, discussionId, reply);
+    console.log("[review] Reply posted successfully.");
+  } catch (err) {
+    logFailure("[review] Issue reply failed:", err);
+    outcome = "failed";
+
+    // Attempt to notify the discussion
+    try {
+      await gitlab.replyToIssueDiscussion(
+        projectId,
+        issueIid,
+        discussionId,
+        `⚠️ Failed to generate a reply. ${buildCiJobLogMessage()}\n\n` +
+        `\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``,
+      );
+    } catch {
+      // ignore
+    }
+
+    process.exitCode = 1;
+  } finally {
+    await progress.finish(outcome);
+    if (cleanup) {
+      try {
+        await cleanup();
+      } catch (cleanupErr) {
+        console.warn("[review] Clone cleanup failed:", cleanupErr);
+      }
+    }
+  }
+}
+
+// ─── Commit Reply Handler ───────────────────────────────────────────────────
+
+export async function handleCommitReply(
+  payload: NoteWebhookPayload,
+  config: Config,
+): Promise<void> {
+  const projectId = payload.project.id;
+  const commit = payload.commit!;
+  const sha = commit.id;
+  const shortSha = sha.slice(0, 8);
+  const discussionId = payload.object_attributes.discussion_id;
+  const sessionId = buildCommitSessionId(projectId, sha);
+
+  console.log(
+    `[review] Responding to comment in discussion ${discussionId} ` +
+    `on commit ${shortSha} in ${payload.project.path_with_namespace}`,
+  );
+
+  const gitlab = new GitLabClient(config);
+  let cleanup: (() => Promise<void>) | undefined;
+
+  try {
+    // ─── Fetch full discussion thread ────────────────────────────────────
+    console.log("[review] Fetching commit discussion thread…");
+    const notes = await gitlab.getCommitDiscussionNotes(projectId, sha, discussionId);
+    console.log(`[review] Thread has ${notes.length} message(s)`);
+
+    const threadMessages = notes.map((note) => ({
+      author: note.author.username,
+      body: note.body,
+      createdAt: note.created_at,
+    }));
+
+    // ─── Extract file/line context if inline discussion ──────────────────
+    const position = payload.object_attributes.position;
+    const filePath = position?.new_path;
+    const lineNumber = position?.new_line ?? undefined;
+
+    // ─── Get the commit diff (discussed file only for inline threads) ────
+    let diffContext: string | undefined;
+    try {
+      const diffs = await gitlab.getCommitDiff(projectId, sha);
+      if (filePath) {
+        diffContext = diffs.find(
+          (d) => d.new_path === filePath || d.old_path === filePath,
+        )?.diff;
+      } else {
+        diffContext = formatMergeRequestDiff(diffs) || undefined;
+      }
+    } catch {
+      console.warn("[review] Could not fetch commit diff, continuing without it");
+    }
+
+    // ─── Check out the discussed commit ──────────────────────────────────
+    console.log(`[review] Checking out commit ${shortSha}…`);
+    const clone = await cloneRepositoryAtCommit(payload.project.http_url, sha, config.gitlabToken);
+    cleanup = clone.cleanup;
+    console.log(`[review] Checked out to ${clone.dir}`);
+
+    // ─── Generate reply ──────────────────────────────────────────────────
+    console.log("[review] Generating Copilot reply…");
+    const reply = await replyToComment({
+      config,
+      repoDir: clone.dir,
+      sessionId,
+      threadMessages,
+      filePath,
+      lineNumber,
+      diffContext,
+      subject: {
+        kind: "commit",
+        title: `${shortSha} ${commit.title ?? commit.message.split("\n")[0]}`,
+        url: commit.url ?? payload.object_attributes.url,
+        description: commit.message,
+      },
+    });
+
+    if (!reply) {
+      console.log("[review] Empty reply from Copilot, skipping.");
+      return;
+    }
+
+    // ─── Post reply to the discussion ────────────────────────────────────
+    console.log("[review] Posting reply to commit discussion…");
+    await gitlab.replyToCommitDiscussion(projectId, sha, discussionId, reply);
+    console.log("[review] Reply posted successfully.");
+  } catch (err) {
+    logFailure("[review] Commit reply failed:", err);
+
+    // Attempt to notify the discussion
+    try {
+      await gitlab.replyToCommitDiscussion(
+        projectId,
+        sha,
+        discussionId,
+        `⚠️ Failed to generate a reply. ${buildCiJobLogMessage()}\n\n` +
+        `\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``,
+      );
+    } catch {
+      // ignore
+    }
+
+    process.exitCode = 1;
+  } finally {
+    if (cleanup) {
+      try {
+        await cleanup();
+      } catch (cleanupErr) {
+        console.warn("[review] Clone cleanup failed:", cleanupErr);
+      }
+    }
+  }
+}
+
+// ─── MR Review Handler ─────────────────────────────────────────────────────
+
+/**
+ * Everything needed to review a merge request, independent of which
+ * webhook (MR event or slash command) asked for the review.
+ */
+interface MergeRequestReviewTarget {
+  projectId: number;
+  mrIid: number;
+  mrTitle: string;
+  mrDescription: string;
+  sourceBranch: string;
+  targetBranch: string;
+  /** Project web URL (used to build the MR link) */
+  projectUrl: string;
+  /** e.g. "group/project" */
+  projectPath: string;
+  /** Project HTTP clone URL */
+  httpUrl: string;
+  /** Set when the MR comes from a fork, whose branch isn't in this project */
+  fork?: MergeRequestSource["fork"];
+  /** Review the whole MR even if an earlier review could be built upon */
+  fullReview?: boolean;
+  /** Review profile selected by a scoped trigger label (e.g. "security") */
+  profile?: string;
+  /** Note that requested the review (slash command); progress reactions go there instead of on the MR */
+  triggerNoteId?: number;
+}
+
+export async function handleMergeRequestReview(
+  payload: MergeRequestWebhookPayload,
+  config: Config,
+  profile?: string,
+): Promise<void> {
+  await runMergeRequestReview(
+    {
+      projectId: payload.project.id,
+      mrIid: payload.object_attributes.iid,
+      mrTitle: payload.object_attributes.title,
+      mrDescription: payload.object_attributes.description ?? "",
+      sourceBranch: payload.object_attributes.source_branch,
+      targetBranch: payload.object_attributes.target_branch,
+      projectUrl: payload.project.web_url,
+      projectPath: payload.project.path_with_namespace,
+      httpUrl: payload.project.http_url,
+      fork: findMergeRequestFork(payload.object_attributes),
+      // A profile review looks at the MR from a new angle, so it covers everything
+      fullReview: profile !== undefined,
+      profile,
+    },
+    config,
+  );
+}
+
+async function runMergeRequestReview(
+  target: MergeRequestReviewTarget,
+  config: Config,
+): Promise<void> {
+  const {
+    projectId,
+    mrIid,
+    mrTitle,
+    mrDescription,
+    sourceBranch,
+    targetBranch,
+    projectUrl,
+    projectPath,
+    httpUrl,
+    fork,
+    fullReview,
+    profile,
+    triggerNoteId,
+  } = target;
+  const mrUrl = `${projectUrl}/-/merge_requests/${mrIid}`;
+  const sessionId = buildMergeRequestSessionId(projectId, mrIid);
+
+  console.log(
+    `[review] MR !${mrIid} in project ${projectId}: ${mrTitle}\n` +
+    `[review] ${sourceBranch} → ${targetBranch}` +
+    (profile ? ` (profile: ${profile})` : ""),
+  );
+
+  const gitlab = new GitLabClient(config);
+  let cleanup: (() => Promise<void>) | undefined;
+  let releaseLock: (() => Promise<void>) | undefined;
+  // Started once the lock is held: a run that gives up must not touch the
+  // reactions of the review in progress
+  let progress: ProgressReactions | undefined;
+  let outcome: ProgressOutcome = "done";
+  // Set once the review starts, so failures after that mark the status failed
+  let statusTarget: ReviewStatusTarget | undefined;
+
+  try {
+    // ─── Load the project's review policy ────────────────────────────────
+    // From the target branch: the MR must not be able to exempt itself
+    const { policy, source } = await loadReviewPolicy(gitlab, projectId, targetBranch);
+    console.log(
+      `[review] Review policy (${source ?? "defaults"}): ${describeReviewPolicy(policy)}`,
+    );
+
+    const authorUsername = policy.skipAuthors.length > 0
+      ? (await gitlab.getMergeRequest(projectId, mrIid)).author.username
+      : undefined;
+    const skipReason = findPolicySkipReason(policy, { targetBranch, authorUsername });
+    if (skipReason) {
+      console.log(`[review] Skipping review per ${source}: ${skipReason}`);
+      outcome = "skipped";
+      return;
+    }
+
+    // ─── Wait for other reviews of this MR to finish ─────────────────────
+    const lock = await acquireReviewLock(gitlab, projectId, mrIid, config.gitlabBotUsername);
+    if (!lock) {
+      console.log("[review] Another review of this MR is still running, giving up.");
+      outcome = "skipped";
+      return;
+    }
+    releaseLock = lock.release;
+
+    progress = await startProgressReactions(
+      gitlab,
+      triggerNoteId !== undefined
+        ? { kind: "merge_request_note", projectId, mrIid, noteId: triggerNoteId }
+        : { kind: "merge_request", projectId, mrIid },
+      config.gitlabBotUsername,
+    );
+
+    // ─── Fetch diffs ─────────────────────────────────────────────────────
+    // Before cloning: the checkout is pinned to the head of this diff
+    // version, so a push landing in between can't make them disagree
+    console.log("[review] Fetching MR diffs…");
+    const latestDiffs = await gitlab.getLatestDiffs(projectId, mrIid);
+    console.log(
+      `[review] Got ${latestDiffs.diffs.length} changed file(s), ` +
+      `version ${latestDiffs.id}`,
+    );
+
+    // ─── Check out the reviewed commit ───────────────────────────────────
+    console.log(`[review] Checking out ${latestDiffs.head_commit_sha.slice(0, 8)}…`);
+    const clone = await cloneMergeRequestAtCommit(
+      { mrIid, targetHttpUrl: httpUrl, sourceBranch, fork },
+      latestDiffs.head_commit_sha,
+      config.gitlabToken,
+    );
+    cleanup = clone.cleanup;
+    console.log(`[review] Checked out to ${clone.dir}`);
+
+    const diffVersion = {
+      ...latestDiffs,
+      diffs: latestDiffs.diffs.filter((d) => !isDiffIgnored(d, policy)),
+    };
+    const ignoredCount = latestDiffs.diffs.length - diffVersion.diffs.length;
+    if (ignoredCount > 0) {
+      console.log(`[review] Ignoring ${ignoredCount} file(s) matching ignore_paths`);
+    }
+
+    if (latestDiffs.diffs.length > 0 && diffVersion.diffs.length === 0) {
+      await gitlab.postMergeRequestNote(
+        projectId,
+        mrIid,
+        `🤖 **Copilot Review**: All changed files are excluded by \`ignore_paths\` in \`${REVIEW_POLICY_PATH}\`.`,
+      );
+      console.log("[review] Only ignored files changed.");
+      outcome = "skipped";
+      return;
+    }
+
+    if (diffVersion.diffs.length === 0) {
+      await gitlab.postMergeRequestNote(
+        projectId,
+        mrIid,
+        "🤖 **Copilot Review**: No file changes detected in this MR.",
+      );
+      console.log("[review] No diffs to review.");
+      outcome = "skipped";
+      return;
+    }
+
+    // ─── Narrow to commits pushed since the last review ──────────────────
+    let incrementalDiff: IncrementalDiff | undefined;
+    if (config.incrementalReview && !fullReview) {
+      try {
+        const notes = await gitlab.getMergeRequestNotes(projectId, mrIid);
+        const lastReviewedSha = findLastReviewedSha(notes, config.gitlabBotUsername);
+        if (lastReviewedSha === diffVersion.head_commit_sha && lock.waited) {
+          console.log("[review] The review we waited for already covered the current head, skipping.");
+          outcome = "skipped";
+          return;
+        }
+        if (lastReviewedSha) {
+          incrementalDiff = await resolveIncrementalDiff(
+            gitlab,
+            projectId,
+            mrIid,
+            diffVersion,
+            lastReviewedSha,
+          );
+          if (incrementalDiff) {
+            incrementalDiff = {
+              ...incrementalDiff,
+              diffs: incrementalDiff.diffs.filter((d) => !isDiffIgnored(d, policy)),
+            };
+            if (incrementalDiff.diffs.length === 0) {
+              console.log("[review] Only ignored files changed since last review — running a full review");
+              incrementalDiff = undefined;
+            }
+          }
+        }
+      } catch (err) {
+        console.warn("[review] Could not resolve changes since last review, running a full review", err);
+      }
+    }
+    if (incrementalDiff) {
+      console.log(
+        `[review] Incremental review: ${incrementalDiff.diffs.length} file(s) changed ` +
+        `since ${incrementalDiff.fromSha.slice(0, 8)}`,
+      );
+    }
+
+    // ─── Enforce the diff size limit ─────────────────────────────────────
+    const diffLines = countDiffLines(incrementalDiff?.diffs ?? diffVersion.diffs);
+    if (policy.maxDiffLines !== undefined && diffLines > policy.maxDiffLines) {
+      await gitlab.postMergeRequestNote(
+        projectId,
+        mrIid,
+        `🤖 **Copilot Review**: Skipped — the diff has ${diffLines} changed lines, ` +
+        `more than \`max_diff_lines: ${policy.maxDiffLines}\` in \`${REVIEW_POLICY_PATH}\`.`,
+      );
+      console.log(`[review] Diff too large (${diffLines} > ${policy.maxDiffLines} lines), skipping.`);
+      outcome = "skipped";
+      return;
+    }
+
+    // ─── Fetch existing MR comments/discussions for re-review context ─────
+    let mrComments: MergeRequestCommentContext[] = [];
+    try {
+      console.log("[review] Fetching MR comment context…");
+      mrComments = await gitlab.getMergeRequestCommentContext(projectId, mrIid);
+      console.log(`[review] Got ${mrComments.length} comment message(s) for context`);
+    } catch (err) {
+      console.warn("[review] Could not fetch MR comment context, continuing without it", err);
+    }
+
+    if (config.reviewCommitStatus) {
+      // A fork's source branch doesn't exist in the target project, so
+      // its status is attached by SHA alone
+      statusTarget = {
+        projectId,
+        mrIid,
+        sha: diffVersion.head_commit_sha,
+        ref: fork ? undefined : sourceBranch,
+      };
+      await reportReviewStatus(gitlab, statusTarget, {
+        state: "pending",
+        description: "Review in progress",
+        target_url: mrUrl,
+      });
+    }
+
+    // ─── Run review ───────────────────────────────────────────────────
+    console.log("[review] Running Copilot review…");
+    const review = await reviewMergeRequest({
+      config,
+      repoDir: clone.dir,
+      sessionId,
+      mrTitle,
+      mrDescription,
+      mrUrl,
+      sourceBranch,
+      targetBranch,
+      diffVersion,
+      mrComments,
+      incrementalDiff,
+      profile,
+    });
+    console.log(
+      `[review] Review complete: ${review.comments.length} comment(s)`,
+    );
+
+    const { comments, omitted } = applyCommentPolicy(review.comments, policy);
+    if (omitted > 0) {
+      console.log(
+        `[review] ${omitted} comment(s) omitted by severity_threshold / max_comments / ignore_paths`,
+      );
+    }
+
+    // ─── Check whether a newer push superseded this review ───────────────
+    let staleNote = "";
+    let superseded = false;
+    try {
+      const currentHead = (await gitlab.getMergeRequest(projectId, mrIid)).sha;
+      if (currentHead !== diffVersion.head_commit_sha) {
+        superseded = true;
+        console.log(
+          `[review] MR head moved from ${diffVersion.head_commit_sha.slice(0, 8)} ` +
+          `to ${currentHead.slice(0, 8)} during the review — marking results as outdated`,
+        );
+        staleNote =
+          `> ⚠️ **Outdated**: this review covers \`${diffVersion.head_commit_sha.slice(0, 8)}\`, ` +
+          `but the MR has since been updated to \`${currentHead.slice(0, 8)}\`. ` +
+          `Some comments may refer to code that has changed — ` +
+          `\`@${config.gitlabBotUsername} /review\` reviews the new commits.\n\n`;
+      }
+    } catch (err) {
+      console.warn("[review] Could not re-check the MR head, posting anyway", err);
+    }
+
+    // ─── Post results ────────────────────────────────────────────────────
+    console.log("[review] Posting review to GitLab…");
+
+    const scopeNote = incrementalDiff
+      ? ` Incremental review of changes since \`${incrementalDiff.fromSha.slice(0, 8)}\`.`
+      : "";
+    const policyNote = omitted > 0
+      ? ` ${omitted} lower-priority comment(s) omitted by the project review policy.`
+      : "";
+    let summaryBody =
+      `## 🤖 Copilot Code Review${profile ? ` (${profile})` : ""}\n\n` +
+      staleNote +
+      `${review.summary}\n\n` +
+      `---\n` +
+      `_${comments.length} comment(s) reviewed._${scopeNote}${policyNote}\n\n` +
+      buildReviewedShaMarker(diffVersion.head_commit_sha);
+
+    // Edit the previous summary in place, with a history of reviewed versions
+    let summaryNoteId: number | undefined;
+    if (config.reviewSummaryMode === "update") {
+      let history: ReviewHistoryEntry[] = [];
+      try {
+        const notes = await gitlab.getMergeRequestNotes(projectId, mrIid);
+        const previousSummary = findSummaryNote(notes, config.gitlabBotUsername);
+        if (previousSummary) {
+          summaryNoteId = previousSummary.id;
+          history = parseReviewHistory(previousSummary.body);
+        }
+      } catch (err) {
+        console.warn("[review] Could not look up the previous summary note, posting a new one", err);
+      }
+      history = [
+        ...history,
+        buildReviewHistoryEntry(diffVersion.head_commit_sha, comments, history.at(-1), incrementalDiff),
+      ];
+      summaryBody = buildSummaryNoteBody(summaryBody, history);
+    }
+
+    const { posted, failed, skipped, resolved, stillApplies, summaryNoteId: postedSummaryId } =
+      await gitlab.postReview(
+        projectId,
+        mrIid,
+        summaryBody,
+        comments,
+        diffVersion,
+        { repoDir: clone.dir, summaryNoteId },
+      );
+
+    console.log(
+      `[review] Done: ${posted} comment(s) posted, ${skipped} skipped (duplicate), ${failed} failed; ` +
+      `${resolved} earlier thread(s) resolved, ${stillApplies} still apply`,
+    );
+
+    if (failed > 0) {
+      outcome = "failed";
+      process.exitCode = 1;
+    }
+
+    // ─── Count open critical findings ────────────────────────────────────
+    // An incremental review only saw the new commits, so the status and the
+    // verdict also count critical threads still open from earlier reviews.
+    // Read after posting: this review's threads count, the ones it resolved don't.
+    let openCriticalThreads: number | undefined;
+    if (statusTarget || (config.reviewApproval && !superseded)) {
+      try {
+        openCriticalThreads = countOpenCriticalThreads(
+          await gitlab.getMergeRequestDiscussions(projectId, mrIid),
+          config.gitlabBotUsername,
+        );
+      } catch (err) {
+        logFailure("[review] Could not count open critical threads:", err);
+        outcome = "failed";
+        process.exitCode = 1;
+      }
+    }
+
+    if (statusTarget) {
+      await reportReviewStatus(gitlab, statusTarget, {
+        ...(openCriticalThreads !== undefined
+          ? buildReviewStatus(comments, openCriticalThreads)
+          : { state: "failed", description: "Could not check for open critical findings" }),
+        target_url: postedSummaryId !== undefined ? `${mrUrl}#note_${postedSummaryId}` : mrUrl,
+      });
+    }
+
+    // ─── Approve or request changes ──────────────────────────────────────
+    if (config.reviewApproval) {
+      if (superseded) {
+        console.log("[review] Not approving or requesting changes: the review is outdated");
+      } else if (openCriticalThreads === undefined) {
+        console.log("[review] Not approving or requesting changes: open critical findings are unknown");
+      } else {
+        try {
+          await submitReviewVerdict(
+            gitlab,
+            { projectId, projectPath, mrIid, headSha: diffVersion.head_commit_sha },
+            comments,
+            config.gitlabBotUsername,
+            openCriticalThreads,
+          );
+        } catch (err) {
+          logFailure("[review] Could not approve or request changes:", err);
+          outcome = "failed";
+          process.exitCode = 1;
+        }
+      }
+    }
+  } catch (err) {
+    logFailure("[review] Review failed:", err);
+    outcome = "failed";
+
+    if (statusTarget) {
+      await reportReviewStatus(gitlab, statusTarget, {
+        state: "failed",
+        description: "Review failed with an error",
+        target_url: process.env["CI_JOB_URL"] ?? mrUrl,
+      });
+    }
+
+    // Attempt to notify the MR
+    try {
+      await gitlab.postMergeRequestNote(
+        projectId,
+        mrIid,
+        `🤖 **Copilot Review**: Review failed with an error. ${buildCiJobLogMessage()}\n\n` +
+        `\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``,
+      );
+    } catch {
+      // ignore
+    }
+
+    process.exitCode = 1;
+  } finally {
+    await progress?.finish(outcome);
+    if (releaseLock) {
+      try {
+        await releaseLock();
+      } catch (lockErr) {
+        console.warn("[review] Releasing the review lock failed:", lockErr);
+      }
+    }
+    if (cleanup) {
+      try {
+        await cleanup();
+      } catch (cleanupErr) {
+        console.warn("[review] Clone cleanup failed:", cleanupErr);
+      }
+    }
+  }
+}
+
+// ─── Slash Command Handler ─────────────────────────────────────────────────
+
+/**
+ * Route an `@bot /command` note to the handler for that command.
+ */
+export async function handleBotCommand(
+  command: BotCommand,
+  payload: NoteWebhookPayload,
+  config: Config,
+): Promise<void> {
+  const mr = payload.merge_request!;
+  console.log(`[review] Handling /${command.raw} command on MR !${mr.iid}`);
+
+  switch (command.name) {
+    case "review":
+      await runMergeRequestReview(
+        {
+          projectId: payload.project.id,
+          mrIid: mr.iid,
+          mrTitle: mr.title,
+          mrDescription: mr.description ?? "",
+          sourceBranch: mr.source_branch,
+          targetBranch: mr.target_branch,
+          projectUrl: payload.project.web_url,
+          projectPath: payload.project.path_with_namespace,
+          httpUrl: payload.project.http_url,
+          fork: findMergeRequestFork(mr),
+          fullReview: command.args.toLowerCase() === "full",
+          triggerNoteId: payload.object_attributes.id,
+        },
+        config,
+      );
+      return;
+
+    case "explain":
+      await handleCommentReply(payload, config, {
+        instruction: buildCommandInstruction(command),
+        includeMergeRequestDiff: !payload.object_attributes.position,
+      });
+      return;
+
+    case "summarize":
+    case "describe":
+      await handleCommentReply(payload, config, {
+        instruction: buildCommandInstruction(command),
+        includeMergeRequestDiff: true,
+      });
+      return;
+
+    case "forget":
+      await handleForgetCommand(payload, config);
+      return;
+
+    case "help":
+    case "unknown":
+      await replyToCommandDiscussion(
+        payload,
+        config,
+        buildCommandHelp(
+          config.gitlabBotUsername,
+          command.name === "unknown" ? command.raw : undefined,
+        ),
+      );
+      return;
+  }
+}
+
+async function handleForgetCommand(
+  payload: NoteWebhookPayload,
+  config: Config,
+): Promise<void> {
+  const sessionId = buildMergeRequestSessionId(payload.project.id, payload.merge_request!.iid);
+
+  try {
+    const forgotten = await forgetSession(config, sessionId);
+    await replyToCommandDiscussion(
+      payload,
+      config,
+      forgotten
+        ? "🧹 Conversation memory for this merge request has been cleared."
+        : "🧹 There was no conversation memory to clear for this merge request.",
+    );
+  } catch (err) {
+    logFailure("[review] Failed to forget session:", err);
+    await replyToCommandDiscussion(
+      payload,
+      config,
+      `⚠️ Failed to clear conversation memory. ${buildCiJobLogMessage()}`,
+    );
+    process.exitCode = 1;
+  }
+}
+
+async function replyToCommandDiscussion(
+  payload: NoteWebhookPayload,
+  config: Config,
+  body: string,
+): Promise<void> {
+  try {
+    await new GitLabClient(config).replyToDiscussion(
+      payload.project.id,
+      payload.merge_request!.iid,
+      payload.object_attributes.discussion_id,
+      body,
+    );
+  } catch (err) {
+    logFailure("[review] Failed to reply to command:", err);
+    process.exitCode = 1;
+  }
+}
+
+// ─── Pipeline Failure Handler ───────────────────────────────────────────────
+
+export async function handlePipelineFailure(
+  payload: PipelineWebhookPayload,
+  config: Config,
+): Promise<void> {
+  // The project the pipeline ran in: the fork, for fork MR pipelines that
+  // run there. The MR itself (and its iid) belongs to the target project.
+  const projectId = payload.project.id;
+  const mr = payload.merge_request!;
+  const mrProjectId = mr.target_project_id;
+  const mrIid = mr.iid;
+  const pipelineId = payload.object_attributes.id;
+  const pipelineUrl =
+    payload.object_attributes.url ?? `${payload.project.web_url}/-/pipelines/${pipelineId}`;
+  const sessionId = buildMergeRequestSessionId(mrProjectId, mrIid);
+
+  console.log(
+    `[review] Diagnosing failed pipeline ${pipelineId} ` +
+    `on MR !${mrIid} in ${payload.project.path_with_namespace}`,
+  );
+
+  const gitlab = new GitLabClient(config);
+  let cleanup: (() => Promise<void>) | undefined;
+
+  try {
+    // ─── Fetch failed job logs ───────────────────────────────────────────
+    console.log("[review] Fetching failed job logs…");
+    const jobLogs = await collectFailedJobLogs(gitlab, projectId, pipelineId);
+    if (jobLogs.length === 0) {
+      console.log("[review] No failed jobs found, nothing to diagnose.");
+      return;
+    }
+    console.log(`[review] Got logs for ${jobLogs.length} failed job(s)`);
+
+    // ─── Fetch MR diff for context ───────────────────────────────────────
+    let diffs: DiffFile[] | undefined;
+    try {
+      diffs = (await gitlab.getLatestDiffs(mrProjectId, mrIid)).diffs;
+    } catch {
+      console.warn("[review] Could not fetch MR diffs, continuing without them");
+    }
+
+    // ─── Check out the failed commit ─────────────────────────────────────
+    const failedSha = payload.object_attributes.sha;
+    console.log(`[review] Checking out failed commit ${failedSha.slice(0, 8)}…`);
+    const clone = await cloneMergeRequestAtCommit(
+      await resolvePipelineMergeRequestSource(gitlab, payload),
+      failedSha,
+      config.gitlabToken,
+    );
+    cleanup = clone.cleanup;
+    console.log(`[review] Cloned to ${clone.dir}`);
+
+    // ─── Run diagnosis ───────────────────────────────────────────────────
+    console.log("[review] Running Copilot pipeline diagnosis…");
+    const diagnosis = await diagnosePipelineFailure({
+      config,
+      repoDir: clone.dir,
+      sessionId,
+      mrTitle: mr.title,
+      mrUrl: mr.url,
+      pipelineUrl,
+      ref: payload.object_attributes.ref,
+      sha: payload.object_attributes.sha,
+      jobLogs,
+      diffs,
+    });
+
+    if (!diagnosis) {
+      console.log("[review] Empty diagnosis from Copilot, skipping.");
+      return;
+    }
+
+    // ─── Post diagnosis to the MR ────────────────────────────────────────
+    const failedJobList = jobLogs.map((job) => `[${job.name}](${job.webUrl})`).join(", ");
+    await gitlab.postMergeRequestNote(
+      mrProjectId,
+      mrIid,
+      `## 🔧 Copilot Pipeline Diagnosis\n\n` +
+      `[Pipeline #${pipelineId}](${pipelineUrl}) failed at ` +
+      `\`${payload.object_attributes.sha.slice(0, 8)}\` — failed job(s): ${failedJobList}\n\n` +
+      diagnosis,
+    );
+    console.log("[review] Diagnosis posted successfully.");
+  } catch (err) {
+    // Diagnosis is best-effort: don't add noise to the MR, the pipeline already shows the failure
+    logFailure("[review] Pipeline diagnosis failed:", err);
+    process.exitCode = 1;
+  } finally {
+    if (cleanup) {
+      try {
+        await cleanup();
+      } catch (cleanupErr) {
+        console.warn("[review] Clone cleanup failed:", cleanupErr);
+      }
+    }
+  }
+}
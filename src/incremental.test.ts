@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildReviewedShaMarker,
+  findLastReviewedSha,
+  resolveIncrementalDiff,
+  type IncrementalDiffClient,
+} from "./incremental.js";
+import type {
+  DiffFile,
+  MergeRequestDiffVersion,
+  MergeRequestDiffVersionDetail,
+} from "./types.js";
+
+function makeVersion(
+  id: number,
+  headSha: string,
+  baseSha = "base000",
+): MergeRequestDiffVersion {
+  return {
+    id,
+    head_commit_sha: headSha,
+    base_commit_sha: baseSha,
+    start_commit_sha: baseSha,
+    created_at: new Date().toISOString(),
+    merge_request_id: 1,
+    state: "collected",
+    real_size: "1",
+    patch_id_sha: "patch",
+  };
+}
+
+function makeDiff(path: string): DiffFile {
+  return {
+    old_path: path,
+    new_path: path,
+    a_mode: "100644",
+    b_mode: "100644",
+    diff: "@@ -1 +1 @@\n-a\n+b",
+    new_file: false,
+    renamed_file: false,
+    deleted_file: false,
+    too_large: false,
+    collapsed: false,
+  };
+}
+
+function makeLatest(headSha: string, baseSha = "base000"): MergeRequestDiffVersionDetail {
+  return { ...makeVersion(3, headSha, baseSha), diffs: [makeDiff("a.ts")], commits: [] };
+}
+
+function makeClient(versions: MergeRequestDiffVersion[], diffs: DiffFile[] = [makeDiff("a.ts")]) {
+  return {
+    getMergeRequestVersions: vi.fn().mockResolvedValue(versions),
+    compareCommits: vi.fn().mockResolvedValue({ commits: [], diffs, compare_same_ref: false }),
+  } satisfies IncrementalDiffClient;
+}
+
+describe("findLastReviewedSha", () => {
+  it("returns the SHA from the newest bot summary note", () => {
+    const notes = [
+      { id: 1, body: `old\n${buildReviewedShaMarker("aaaaaaa1")}`, author: { username: "bot" } },
+      { id: 5, body: `new\n${buildReviewedShaMarker("bbbbbbb2")}`, author: { username: "bot" } },
+      { id: 3, body: "unrelated", author: { username: "bot" } },
+    ];
+    expect(findLastReviewedSha(notes, "bot")).toBe("bbbbbbb2");
+  });
+
+  it("ignores markers quoted by other users", () => {
+    const notes = [
+      { id: 1, body: buildReviewedShaMarker("aaaaaaa1"), author: { username: "bot" } },
+      { id: 2, body: buildReviewedShaMarker("ccccccc3"), author: { username: "alice" } },
+    ];
+    expect(findLastReviewedSha(notes, "bot")).toBe("aaaaaaa1");
+  });
+
+  it("ignores markers in notes without an author", () => {
+    const notes = [
+      { id: 1, body: buildReviewedShaMarker("aaaaaaa1"), author: { username: "bot" } },
+      { id: 2, body: buildReviewedShaMarker("ccccccc3") },
+      { id: 3, body: buildReviewedShaMarker("ddddddd4"), author: {} },
+    ];
+    expect(findLastReviewedSha(notes, "bot")).toBe("aaaaaaa1");
+  });
+
+  it("returns undefined when the bot never reviewed", () => {
+    expect(findLastReviewedSha([{ id: 1, body: "hello" }], "bot")).toBeUndefined();
+  });
+});
+
+describe("resolveIncrementalDiff", () => {
+  it("compares the previously reviewed head with the latest head", async () => {
+    const client = makeClient([makeVersion(3, "new1234"), makeVersion(2, "old1234")]);
+
+    const result = await resolveIncrementalDiff(client, 100, 7, makeLatest("new1234"), "old1234");
+
+    expect(client.compareCommits).toHaveBeenCalledWith(100, "old1234", "new1234");
+    expect(result).toEqual({ fromSha: "old1234", toSha: "new1234", diffs: [makeDiff("a.ts")] });
+  });
+
+  it("falls back to a full review when the head is unchanged", async () => {
+    const client = makeClient([makeVersion(3, "new1234")]);
+
+    expect(await resolveIncrementalDiff(client, 100, 7, makeLatest("new1234"), "new1234")).toBeUndefined();
+    expect(client.getMergeRequestVersions).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a full review when the reviewed version no longer exists", async () => {
+    const client = makeClient([makeVersion(3, "new1234")]);
+
+    expect(await resolveIncrementalDiff(client, 100, 7, makeLatest("new1234"), "gone123")).toBeUndefined();
+    expect(client.compareCommits).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a full review after a rebase", async () => {
+    const client = makeClient([
+      makeVersion(3, "new1234", "base111"),
+      makeVersion(2, "old1234", "base000"),
+    ]);
+
+    expect(
+      await resolveIncrementalDiff(client, 100, 7, makeLatest("new1234", "base111"), "old1234"),
+    ).toBeUndefined();
+    expect(client.compareCommits).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a full review when nothing changed between the heads", async () => {
+    const client = makeClient([makeVersion(3, "new1234"), makeVersion(2, "old1234")], []);
+
+    expect(await resolveIncrementalDiff(client, 100, 7, makeLatest("new1234"), "old1234")).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import type {
+  IncrementalDiff,
+  MergeRequestDiffVersion,
+  MergeRequestDiffVersionDetail,
+  RepositoryCompare,
+} from "./types.js";
+
+// ─── Reviewed-version marker ────────────────────────────────────────────────
+
+/**
+ * Hidden marker embedded in the review summary note, recording which
+ * head_commit_sha the bot reviewed. CI jobs are stateless, so the MR
+ * itself is the only place to remember this between runs.
+ */
+const REVIEWED_SHA_MARKER_PATTERN = /<!-- copilot-review:reviewed-sha=([0-9a-f]{7,64}) -->/;
+
+export function buildReviewedShaMarker(headSha: string): string {
+  return `<!-- copilot-review:reviewed-sha=${headSha} -->`;
+}
+
+/**
+ * Find the head SHA recorded by the bot's most recent review summary note.
+ * Notes authored by other users, or without a known author, are ignored so
+ * a quoted marker can't redirect the review.
+ */
+export function findLastReviewedSha(
+  notes: Array<{ id: number; body: string; author?: { username?: string } }>,
+  botUsername: string,
+): string | undefined {
+  const latest = notes
+    .filter((note) => note.author?.username === botUsername)
+    .filter((note) => REVIEWED_SHA_MARKER_PATTERN.test(note.body))
+    .sort((a, b) => b.id - a.id)[0];
+
+  return latest?.body.match(REVIEWED_SHA_MARKER_PATTERN)?.[1];
+}
+
+// ─── Interdiff resolution ───────────────────────────────────────────────────
+
+export interface IncrementalDiffClient {
+  getMergeRequestVersions(
+    projectId: number,
+    mrIid: number,
+  ): Promise<MergeRequestDiffVersion[]>;
+  compareCommits(
+    projectId: number,
+    from: string,
+    to: string,
+  ): Promise<RepositoryCompare>;
+}
+
+/**
+ * Resolve the changes pushed since the previously reviewed diff version.
+ *
+ * Returns undefined (→ full review) when:
+ *   - the previously reviewed SHA is the current head (nothing new to narrow to)
+ *   - no MR diff version with that head exists anymore (e.g. force-push history)
+ *   - the MR was rebased (base_commit_sha changed), so a direct compare would
+ *     include unrelated target-branch changes
+ *   - the interdiff has no file changes
+ */
+export async function resolveIncrementalDiff(
+  gitlab: IncrementalDiffClient,
+  projectId: number,
+  mrIid: number,
+  latest: MergeRequestDiffVersionDetail,
+  lastReviewedSha: string,
+): Promise<IncrementalDiff | undefined> {
+  if (latest.head_commit_sha === lastReviewedSha) {
+    console.log("[review] Head unchanged since last review — running a full review");
+    return undefined;
+  }
+
+  const versions = await gitlab.getMergeRequestVersions(projectId, mrIid);
+  const previous = versions.find((v) => v.head_commit_sha === lastReviewedSha);
+  if (!previous) {
+    console.log(
+      `[review] Previously reviewed ${lastReviewedSha.slice(0, 8)} is not an MR version — running a full review`,
+    );
+    return undefined;
+  }
+
+  if (previous.base_commit_sha !== latest.base_commit_sha) {
+    console.log("[review] MR base changed since last review (rebase) — running a full review");
+    return undefined;
+  }
+
+  const compare = await gitlab.compareCommits(
+    projectId,
+    previous.head_commit_sha,
+    latest.head_commit_sha,
+  );
+  if (compare.diffs.length === 0) {
+    console.log("[review] No file changes since last review — running a full review");
+    return undefined;
+  }
+
+  return {
+    fromSha: previous.head_commit_sha,
+    toSha: latest.head_commit_sha,
+    diffs: compare.diffs,
+  };
+}
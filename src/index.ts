@@ -12,6 +12,12 @@
  * The pipeline runs in the *reviewer* project, so this script clones the
  * *target* project (where the MR lives) before running the review.
  *
+ * For a long-running alternative that receives webhooks over HTTP instead of
+ * spinning up a pipeline per event, see `server.ts`.
+ *
+ * `gitlab-copilot replay <payload.json>` replays a saved payload locally
+ * instead of reading $TRIGGER_PAYLOAD (see `replay.ts`).
+ *
  * Flow:
  *   1. Read & parse the webhook payload from $TRIGGER_PAYLOAD
  *   2. Load config from environment variables
@@ -26,18 +32,9 @@
 
 import { readFile } from "node:fs/promises";
 import { loadConfig } from "./config.js";
-import { GitLabClient } from "./gitlab-client.js";
-import { cloneRepository } from "./git.js";
-import { reviewMergeRequest, replyToComment } from "./reviewer.js";
-import { autoAddBotReviewerIfMissing } from "./auto-add-reviewer.js";
-
-import { classifyWebhookEvent } from "./webhook.js";
-import type {
-  MergeRequestCommentContext,
-  MergeRequestWebhookPayload,
-  NoteWebhookPayload,
-  WebhookPayload,
-} from "./types.js";
+import { handleWebhookEvent } from "./handlers.js";
+import { parseReplayArgs, replayWebhookPayload } from "./replay.js";
+import type { WebhookPayload } from "./types.js";
 
 /**
  * Read and parse the webhook payload from the $TRIGGER_PAYLOAD file variable.
@@ -67,288 +64,22 @@ async function main(): Promise<void> {
   // ─── Load config ────────────────────────────────────────────────────────
   const config = loadConfig();
 
-  // ─── Optional: auto-add bot reviewer when missing ───────────────────────
-  if (payload.object_kind === "merge_request") {
-    const wasAutoAdded = await autoAddBotReviewerIfMissing(
-      payload,
-      config,
-      new GitLabClient(config),
-    );
-    if (wasAutoAdded) {
-      console.log(
-        "[review] Reviewer assignment updated. Waiting for follow-up webhook event to run review.",
-      );
-      return;
-    }
-  }
-
-  // ─── Classify event ─────────────────────────────────────────────────────
-  const event = classifyWebhookEvent(payload, config.gitlabBotUsername);
-
-  if (event.type === "ignore") {
-    console.log(`[review] Event ignored: ${event.reason}`);
-    return;
-  }
-
-  if (event.type === "comment_reply") {
-    await handleCommentReply(event.payload, config);
-    return;
-  }
-
-  // event.type === "review"
-  await handleMergeRequestReview(event.payload, config);
-}
-
-function buildMergeRequestSessionId(projectId: number, mrIid: number): string {
-  return `gitlab-mr-${projectId}-${mrIid}`;
-}
-
-function buildCiJobLogMessage(): string {
-  const ciJobUrl = process.env["CI_JOB_URL"];
-  return ciJobUrl
-    ? `Check the [CI job log](${ciJobUrl}).`
-    : "Check the CI job log.";
+  // ─── Classify & dispatch event ──────────────────────────────────────────
+  await handleWebhookEvent(payload, config);
 }
 
-// ─── Comment Reply Handler ──────────────────────────────────────────────────
-
-async function handleCommentReply(
-  payload: NoteWebhookPayload,
-  config: ReturnType<typeof loadConfig>,
-): Promise<void> {
-  const projectId = payload.project.id;
-  const mr = payload.merge_request!;
-  const mrIid = mr.iid;
-  const discussionId = payload.object_attributes.discussion_id;
-  const httpUrl = payload.project.http_url;
-  const sourceBranch = mr.source_branch;
-  const sessionId = buildMergeRequestSessionId(projectId, mrIid);
-
-  console.log(
-    `[review] Responding to comment in discussion ${discussionId} ` +
-    `on MR !${mrIid} in ${payload.project.path_with_namespace}`,
-  );
-
-  const gitlab = new GitLabClient(config);
-  let cleanup: (() => Promise<void>) | undefined;
-
+async function replay(args: string[]): Promise<void> {
   try {
-    // ─── Fetch full discussion thread ────────────────────────────────────
-    console.log("[review] Fetching discussion thread…");
-    const notes = await gitlab.getDiscussionNotes(projectId, mrIid, discussionId);
-    console.log(`[review] Thread has ${notes.length} message(s)`);
-
-    const threadMessages = notes.map((note) => ({
-      author: note.author.username,
-      body: note.body,
-      createdAt: note.created_at,
-    }));
-
-    // ─── Extract file/line context if inline discussion ──────────────────
-    const position = payload.object_attributes.position;
-    const filePath = position?.new_path;
-    const lineNumber = position?.new_line ?? undefined;
-
-    // ─── Get diff context if available ───────────────────────────────────
-    let diffContext: string | undefined;
-    if (filePath) {
-      try {
-        const diffVersion = await gitlab.getLatestDiffs(projectId, mrIid);
-        const diffFile = diffVersion.diffs.find(
-          (d) => d.new_path === filePath || d.old_path === filePath,
-        );
-        if (diffFile) {
-          diffContext = diffFile.diff;
-        }
-      } catch {
-        console.warn("[review] Could not fetch diff context, continuing without it");
-      }
-    }
-
-    // ─── Clone the target project ────────────────────────────────────────
-    console.log("[review] Cloning target repository…");
-    const clone = await cloneRepository(httpUrl, sourceBranch, config.gitlabToken);
-    cleanup = clone.cleanup;
-    console.log(`[review] Cloned to ${clone.dir}`);
-
-    // ─── Generate reply ──────────────────────────────────────────────────
-    console.log("[review] Generating Copilot reply…");
-    const reply = await replyToComment({
-      config,
-      repoDir: clone.dir,
-      sessionId,
-      threadMessages,
-      filePath,
-      lineNumber,
-      diffContext,
-      mrTitle: mr.title,
-      mrUrl: mr.url,
-    });
-
-    if (!reply) {
-      console.log("[review] Empty reply from Copilot, skipping.");
-      return;
-    }
-
-    // ─── Post reply to the discussion ────────────────────────────────────
-    console.log("[review] Posting reply to discussion…");
-    await gitlab.replyToDiscussion(projectId, mrIid, discussionId, reply);
-    console.log("[review] Reply posted successfully.");
+    await replayWebhookPayload(parseReplayArgs(args));
   } catch (err) {
-    console.error("[review] Comment reply failed:", err);
-
-    // Attempt to notify the discussion
-    try {
-      await gitlab.replyToDiscussion(
-        projectId,
-        mrIid,
-        discussionId,
-        `⚠️ Failed to generate a reply. ${buildCiJobLogMessage()}\n\n` +
-        `\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``,
-      );
-    } catch {
-      // ignore
-    }
-
+    console.error(`[replay] ${err instanceof Error ? err.message : String(err)}`);
     process.exitCode = 1;
-  } finally {
-    if (cleanup) {
-      try {
-        await cleanup();
-      } catch (cleanupErr) {
-        console.warn("[review] Clone cleanup failed:", cleanupErr);
-      }
-    }
   }
 }
 
-// ─── MR Review Handler ─────────────────────────────────────────────────────
-
-async function handleMergeRequestReview(
-  payload: MergeRequestWebhookPayload,
-  config: ReturnType<typeof loadConfig>,
-): Promise<void> {
-  const projectId = payload.project.id;
-  const mrIid = payload.object_attributes.iid;
-  const mrTitle = payload.object_attributes.title;
-  const mrDescription = payload.object_attributes.description ?? "";
-  const sourceBranch = payload.object_attributes.source_branch;
-  const targetBranch = payload.object_attributes.target_branch;
-  const projectUrl = payload.project.web_url;
-  const httpUrl = payload.project.http_url;
-  const mrUrl = `${projectUrl}/-/merge_requests/${mrIid}`;
-  const sessionId = buildMergeRequestSessionId(projectId, mrIid);
-
-  console.log(
-    `[review] MR !${mrIid} in project ${projectId}: ${mrTitle}\n` +
-    `[review] ${sourceBranch} → ${targetBranch}`,
-  );
-
-  const gitlab = new GitLabClient(config);
-  let cleanup: (() => Promise<void>) | undefined;
-
-  try {
-    // ─── Clone the target project ────────────────────────────────────────
-    console.log("[review] Cloning target repository…");
-    const clone = await cloneRepository(httpUrl, sourceBranch, config.gitlabToken);
-    cleanup = clone.cleanup;
-    console.log(`[review] Cloned to ${clone.dir}`);
-
-    // ─── Fetch diffs ─────────────────────────────────────────────────────
-    console.log("[review] Fetching MR diffs…");
-    const diffVersion = await gitlab.getLatestDiffs(projectId, mrIid);
-    console.log(
-      `[review] Got ${diffVersion.diffs.length} changed file(s), ` +
-      `version ${diffVersion.id}`,
-    );
-
-    if (diffVersion.diffs.length === 0) {
-      await gitlab.postMergeRequestNote(
-        projectId,
-        mrIid,
-        "🤖 **Copilot Review**: No file changes detected in this MR.",
-      );
-      console.log("[review] No diffs to review.");
-      return;
-    }
-
-    // ─── Fetch existing MR comments/discussions for re-review context ─────
-    let mrComments: MergeRequestCommentContext[] = [];
-    try {
-      console.log("[review] Fetching MR comment context…");
-      mrComments = await gitlab.getMergeRequestCommentContext(projectId, mrIid);
-      console.log(`[review] Got ${mrComments.length} comment message(s) for context`);
-    } catch (err) {
-      console.warn("[review] Could not fetch MR comment context, continuing without it", err);
-    }
-
-    // ─── Run review ───────────────────────────────────────────────────
-    console.log("[review] Running Copilot review…");
-    const review = await reviewMergeRequest({
-      config,
-      repoDir: clone.dir,
-      sessionId,
-      mrTitle,
-      mrDescription,
-      mrUrl,
-      sourceBranch,
-      targetBranch,
-      diffVersion,
-      mrComments,
-    });
-    console.log(
-      `[review] Review complete: ${review.comments.length} comment(s)`,
-    );
-
-    // ─── Post results ────────────────────────────────────────────────────
-    console.log("[review] Posting review to GitLab…");
-
-    const summaryBody =
-      `## 🤖 Copilot Code Review\n\n` +
-      `${review.summary}\n\n` +
-      `---\n` +
-      `_${review.comments.length} comment(s) reviewed._`;
-
-    const { posted, failed, skipped } = await gitlab.postReview(
-      projectId,
-      mrIid,
-      summaryBody,
-      review.comments,
-      diffVersion,
-    );
-
-    console.log(
-      `[review] Done: ${posted} comment(s) posted, ${skipped} skipped (duplicate), ${failed} failed`,
-    );
-
-    if (failed > 0) {
-      process.exitCode = 1;
-    }
-  } catch (err) {
-    console.error("[review] Review failed:", err);
-
-    // Attempt to notify the MR
-    try {
-      await gitlab.postMergeRequestNote(
-        projectId,
-        mrIid,
-        `🤖 **Copilot Review**: Review failed with an error. ${buildCiJobLogMessage()}\n\n` +
-        `\`\`\`\n${err instanceof Error ? err.message : String(err)}\n\`\`\``,
-      );
-    } catch {
-      // ignore
-    }
-
-    process.exitCode = 1;
-  } finally {
-    if (cleanup) {
-      try {
-        await cleanup();
-      } catch (cleanupErr) {
-        console.warn("[review] Clone cleanup failed:", cleanupErr);
-      }
-    }
-  }
+const [command, ...args] = process.argv.slice(2);
+if (command === "replay") {
+  replay(args);
+} else {
+  main();
 }
-
-main();
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { cleanJobTrace, collectFailedJobLogs, type JobLogClient } from "./pipeline-diagnosis.js";
+import type { PipelineJob } from "./types.js";
+
+function makeJob(id: number, name: string, allowFailure = false): PipelineJob {
+  return {
+    id,
+    name,
+    stage: "test",
+    status: "failed",
+    allow_failure: allowFailure,
+    failure_reason: "script_failure",
+    web_url: `https://gitlab.example.com/group/demo/-/jobs/${id}`,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("cleanJobTrace", () => {
+  it("strips ANSI codes and section markers", () => {
+    const trace = [
+      "section_start:1700000000:step_script\r\x1b[0K\x1b[32;1mExecuting step_script\x1b[0;m",
+      "\x1b[31mError: expected 2 to equal 3\x1b[0m",
+      "section_end:1700000001:step_script\r\x1b[0K",
+    ].join("\n");
+
+    expect(cleanJobTrace(trace)).toBe("Executing step_script\nError: expected 2 to equal 3");
+  });
+
+  it("keeps only the final state of carriage-return progress lines", () => {
+    expect(cleanJobTrace("Downloading 10%\rDownloading 50%\rDownloading 100%")).toBe(
+      "Downloading 100%",
+    );
+  });
+
+  it("keeps only the tail of long logs", () => {
+    const trace = Array.from({ length: 500 }, (_, i) => `line ${i}`).join("\n");
+    const cleaned = cleanJobTrace(trace);
+
+    expect(cleaned.split("\n")).toHaveLength(200);
+    expect(cleaned.endsWith("line 499")).toBe(true);
+    expect(cleaned).not.toContain("line 299\n");
+  });
+});
+
+describe("collectFailedJobLogs", () => {
+  it("collects logs of failed jobs that are not allowed to fail", async () => {
+    const gitlab: JobLogClient = {
+      getPipelineJobs: vi.fn().mockResolvedValue([makeJob(1, "unit"), makeJob(2, "lint", true)]),
+      getJobTrace: vi.fn().mockResolvedValue("boom"),
+    };
+
+    const logs = await collectFailedJobLogs(gitlab, 100, 31);
+
+    expect(gitlab.getPipelineJobs).toHaveBeenCalledWith(100, 31, "failed");
+    expect(gitlab.getJobTrace).toHaveBeenCalledTimes(1);
+    expect(logs).toEqual([
+      {
+        name: "unit",
+        stage: "test",
+        failureReason: "script_failure",
+        webUrl: "https://gitlab.example.com/group/demo/-/jobs/1",
+        log: "boom",
+      },
+    ]);
+  });
+
+  it("keeps jobs whose trace cannot be fetched", async () => {
+    const gitlab: JobLogClient = {
+      getPipelineJobs: vi.fn().mockResolvedValue([makeJob(1, "unit")]),
+      getJobTrace: vi.fn().mockRejectedValue(new Error("403")),
+    };
+
+    const logs = await collectFailedJobLogs(gitlab, 100, 31);
+
+    expect(logs[0]?.log).toBe("(log unavailable)");
+  });
+});
@@ -0,0 +1,75 @@
+import type { FailedJobLog, PipelineJob } from "./types.js";
+
+/** Maximum number of failed jobs whose logs are sent to Copilot */
+const MAX_DIAGNOSED_JOBS = 5;
+/** Only the end of a job log is kept — that's where the failure is */
+const JOB_LOG_TAIL_LINES = 200;
+const JOB_LOG_MAX_CHARS = 15_000;
+
+export interface JobLogClient {
+  getPipelineJobs(
+    projectId: number,
+    pipelineId: number,
+    scope?: string,
+  ): Promise<PipelineJob[]>;
+  getJobTrace(projectId: number, jobId: number): Promise<string>;
+}
+
+/**
+ * Strip ANSI colour codes, GitLab collapsible-section markers and carriage
+ * return progress output from a raw job trace, then keep only its tail.
+ */
+export function cleanJobTrace(trace: string): string {
+  const lines = trace
+    .replace(/\x1b\[[0-9;]*[A-Za-z]/g, "")
+    .replace(/section_(?:start|end):\d+:[\w.-]+(?:\[[^\]]*\])?\r?/g, "")
+    .split("\n")
+    // Progress bars rewrite the line with \r — keep only the final state
+    .map((line) => line.slice(line.lastIndexOf("\r") + 1).trimEnd());
+
+  let tail = lines.slice(-JOB_LOG_TAIL_LINES).join("\n").trim();
+  if (tail.length > JOB_LOG_MAX_CHARS) {
+    tail = `…${tail.slice(-JOB_LOG_MAX_CHARS)}`;
+  }
+  return tail;
+}
+
+/**
+ * Fetch and clean the logs of the failed (non allow_failure) jobs of a pipeline.
+ * Jobs whose trace can't be fetched are included with a placeholder log.
+ */
+export async function collectFailedJobLogs(
+  gitlab: JobLogClient,
+  projectId: number,
+  pipelineId: number,
+): Promise<FailedJobLog[]> {
+  const failedJobs = (await gitlab.getPipelineJobs(projectId, pipelineId, "failed"))
+    .filter((job) => !job.allow_failure);
+
+  if (failedJobs.length > MAX_DIAGNOSED_JOBS) {
+    console.log(
+      `[review] ${failedJobs.length} failed job(s), diagnosing the first ${MAX_DIAGNOSED_JOBS}`,
+    );
+  }
+
+  const logs: FailedJobLog[] = [];
+  for (const job of failedJobs.slice(0, MAX_DIAGNOSED_JOBS)) {
+    let log: string;
+    try {
+      log = cleanJobTrace(await gitlab.getJobTrace(projectId, job.id));
+    } catch (err) {
+      console.warn(`[review] Could not fetch log for job ${job.id} (${job.name}):`, err);
+      log = "(log unavailable)";
+    }
+
+    logs.push({
+      name: job.name,
+      stage: job.stage,
+      failureReason: job.failure_reason,
+      webUrl: job.web_url,
+      log,
+    });
+  }
+
+  return logs;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { startProgressReactions, type ProgressReactionClient } from "./progress-reactions.js";
+import type { AwardEmoji, AwardableTarget } from "./types.js";
+
+const BOT = "copilot-reviewer";
+const TARGET: AwardableTarget = { kind: "merge_request_note", projectId: 42, mrIid: 7, noteId: 1243 };
+
+function makeAward(id: number, name: string, username = BOT): AwardEmoji {
+  return {
+    id,
+    name,
+    user: { id: 99, name: username, username, avatar_url: "" },
+    created_at: "2026-02-16T10:00:00Z",
+  };
+}
+
+function createFakeClient(initial: AwardEmoji[] = []) {
+  const awards = [...initial];
+  let nextId = 100;
+
+  const client = {
+    getAwardEmoji: vi.fn(async (_target: AwardableTarget) => [...awards]),
+    awardEmoji: vi.fn(async (_target: AwardableTarget, name: string): Promise<AwardEmoji | undefined> => {
+      const award = makeAward(nextId++, name);
+      awards.push(award);
+      return award;
+    }),
+    deleteAwardEmoji: vi.fn(async (_target: AwardableTarget, awardId: number) => {
+      const index = awards.findIndex((a) => a.id === awardId);
+      if (index === -1) throw new Error("GitLab API error: 404 Not Found");
+      awards.splice(index, 1);
+    }),
+  } satisfies ProgressReactionClient;
+
+  return { client, names: () => awards.map((a) => `${a.user.username}:${a.name}`) };
+}
+
+describe("startProgressReactions", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("reacts 👀 on start and swaps it for ✅ when done", async () => {
+    const { client, names } = createFakeClient();
+
+    const progress = await startProgressReactions(client, TARGET, BOT);
+    expect(names()).toEqual([`${BOT}:eyes`]);
+
+    await progress.finish("done");
+    expect(names()).toEqual([`${BOT}:white_check_mark`]);
+  });
+
+  it("swaps 👀 for ❌ on failure", async () => {
+    const { client, names } = createFakeClient();
+
+    const progress = await startProgressReactions(client, TARGET, BOT);
+    await progress.finish("failed");
+
+    expect(names()).toEqual([`${BOT}:x`]);
+  });
+
+  it("only removes 👀 when skipped", async () => {
+    const { client, names } = createFakeClient();
+
+    const progress = await startProgressReactions(client, TARGET, BOT);
+    await progress.finish("skipped");
+
+    expect(names()).toEqual([]);
+  });
+
+  it("replaces the bot's reactions from an earlier run but keeps other users'", async () => {
+    const { client, names } = createFakeClient([
+      makeAward(1, "x"),
+      makeAward(2, "white_check_mark", "johndoe"),
+      makeAward(3, "thumbsup"),
+    ]);
+
+    const progress = await startProgressReactions(client, TARGET, BOT);
+    await progress.finish("done");
+
+    expect(names()).toEqual([
+      "johndoe:white_check_mark",
+      `${BOT}:thumbsup`,
+      `${BOT}:white_check_mark`,
+    ]);
+  });
+
+  it("never throws when the API fails", async () => {
+    const { client } = createFakeClient();
+    client.getAwardEmoji.mockRejectedValue(new Error("GitLab API error: 500"));
+    client.awardEmoji.mockRejectedValue(new Error("GitLab API error: 500"));
+
+    const progress = await startProgressReactions(client, TARGET, BOT);
+    await expect(progress.finish("failed")).resolves.toBeUndefined();
+  });
+
+  it("still marks the outcome when 👀 was already removed by a later run", async () => {
+    const { client, names } = createFakeClient();
+
+    const first = await startProgressReactions(client, TARGET, BOT);
+    const second = await startProgressReactions(client, TARGET, BOT);
+    await first.finish("done");
+
+    expect(names()).toEqual([`${BOT}:eyes`, `${BOT}:white_check_mark`]);
+    await second.finish("done");
+  });
+});
@@ -0,0 +1,71 @@
+import type { AwardEmoji, AwardableTarget } from "./types.js";
+
+// ─── Progress reactions ─────────────────────────────────────────────────────
+
+/**
+ * Emoji the bot uses to show where a review or reply stands, on the MR or on
+ * the note that triggered it: 👀 while working, then ✅ or ❌.
+ */
+export const PROGRESS_EMOJI = {
+  started: "eyes",
+  done: "white_check_mark",
+  failed: "x",
+} as const;
+
+/** "skipped" only removes 👀 — nothing was reviewed, so nothing is marked done */
+export type ProgressOutcome = "done" | "failed" | "skipped";
+
+export interface ProgressReactionClient {
+  getAwardEmoji(target: AwardableTarget): Promise<AwardEmoji[]>;
+  awardEmoji(target: AwardableTarget, name: string): Promise<AwardEmoji | undefined>;
+  deleteAwardEmoji(target: AwardableTarget, awardId: number): Promise<void>;
+}
+
+export interface ProgressReactions {
+  finish(outcome: ProgressOutcome): Promise<void>;
+}
+
+/**
+ * React 👀 on the target. Reactions are best-effort feedback: API errors are
+ * logged and never fail the review.
+ *
+ * Earlier progress reactions by the bot (e.g. ✅ from a previous review of
+ * the same MR) are removed first, so the reactions always reflect the
+ * latest run.
+ */
+export async function startProgressReactions(
+  gitlab: ProgressReactionClient,
+  target: AwardableTarget,
+  botUsername: string,
+): Promise<ProgressReactions> {
+  const progressNames: string[] = Object.values(PROGRESS_EMOJI);
+  let started: AwardEmoji | undefined;
+
+  try {
+    const previous = (await gitlab.getAwardEmoji(target)).filter(
+      (award) => award.user.username === botUsername && progressNames.includes(award.name),
+    );
+    for (const award of previous) {
+      await gitlab.deleteAwardEmoji(target, award.id);
+    }
+    started = await gitlab.awardEmoji(target, PROGRESS_EMOJI.started);
+  } catch (err) {
+    console.warn("[review] Could not add progress reaction:", err);
+  }
+
+  return {
+    finish: async (outcome) => {
+      // Already gone if a later run on the same target replaced it
+      if (started) {
+        await gitlab.deleteAwardEmoji(target, started.id).catch((err) => {
+          console.warn("[review] Could not remove progress reaction:", err);
+        });
+      }
+      if (outcome !== "skipped") {
+        await gitlab.awardEmoji(target, PROGRESS_EMOJI[outcome]).catch((err) => {
+          console.warn("[review] Could not add progress reaction:", err);
+        });
+      }
+    },
+  };
+}
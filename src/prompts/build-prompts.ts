@@ -1,4 +1,10 @@
-import type { DiffFile, MergeRequestCommentContext } from "../types.js";
+import type {
+  CommentReplySubject,
+  DiffFile,
+  FailedJobLog,
+  IncrementalDiff,
+  MergeRequestCommentContext,
+} from "../types.js";
 
 const REVIEW_CONTEXT_COMMENT_LIMIT = 30;
 const REVIEW_CONTEXT_COMMENT_BODY_LIMIT = 500;
@@ -43,18 +49,7 @@ function buildMrCommentsSection(
 \n\n${entries}${truncatedNote}\n\n`;
 }
 
-/**
- * Build the user prompt that presents the MR diff to the reviewer.
- */
-export function buildDiffPrompt(
-  mrTitle: string,
-  mrDescription: string,
-  mrUrl: string,
-  sourceBranch: string,
-  targetBranch: string,
-  diffs: DiffFile[],
-  mrComments?: MergeRequestCommentContext[],
-): string {
+function formatFileDiffs(diffs: DiffFile[]): string {
   const filesDiff = diffs
     .filter((d) => !d.too_large && !d.collapsed)
     .map((d) => {
@@ -76,6 +71,47 @@ export function buildDiffPrompt(
         `You can read them directly from the working directory: ${skipped.map((d) => d.new_path).join(", ")}`
       : "";
 
+  return `${filesDiff}${skippedNote}`;
+}
+
+function buildChangedFilesSection(
+  diffs: DiffFile[],
+  incrementalDiff: IncrementalDiff | undefined,
+): string {
+  if (!incrementalDiff) {
+    return `## Changed Files (${diffs.length} file(s))\n\n${formatFileDiffs(diffs)}`;
+  }
+
+  const from = incrementalDiff.fromSha.slice(0, 8);
+  const to = incrementalDiff.toSha.slice(0, 8);
+
+  return `## Changes Since Last Review (\`${from}\` → \`${to}\`, ${incrementalDiff.diffs.length} file(s))
+This merge request was already reviewed at \`${from}\`. Review ONLY these new changes — do not repeat findings about code that was already reviewed.
+
+${formatFileDiffs(incrementalDiff.diffs)}
+
+## Full MR Diff (background context, ${diffs.length} file(s))
+The complete merge request diff, for context only. Line numbers refer to the same (latest) file versions as above.
+
+${formatFileDiffs(diffs)}`;
+}
+
+/**
+ * Build the user prompt that presents the MR diff to the reviewer.
+ *
+ * When `incrementalDiff` is given, the prompt asks for a review of only the
+ * changes pushed since the last review and includes the full diff as context.
+ */
+export function buildDiffPrompt(
+  mrTitle: string,
+  mrDescription: string,
+  mrUrl: string,
+  sourceBranch: string,
+  targetBranch: string,
+  diffs: DiffFile[],
+  mrComments?: MergeRequestCommentContext[],
+  incrementalDiff?: IncrementalDiff,
+): string {
   const mrCommentsSection = buildMrCommentsSection(mrComments);
 
   return `# Merge Request: ${mrTitle}
@@ -85,9 +121,7 @@ export function buildDiffPrompt(
 ## Description
 ${mrDescription || "(no description)"}
 
-${mrCommentsSection}## Changed Files (${diffs.length} file(s))
-
-${filesDiff}${skippedNote}
+${mrCommentsSection}${buildChangedFilesSection(diffs, incrementalDiff)}
 
 ---
 
@@ -96,18 +130,30 @@ Please review the above changes. The full repository is available in your workin
 When done, call the **submit_review** tool with your review.`;
 }
 
+const SUBJECT_HEADINGS: Record<CommentReplySubject["kind"], string> = {
+  merge_request: "Merge Request",
+  issue: "Issue",
+  commit: "Commit",
+};
+
 /**
  * Build the user prompt for a comment reply session.
  */
 export function buildCommentReplyPrompt(opts: {
-  mrTitle: string;
-  mrUrl: string;
+  subject: CommentReplySubject;
   filePath?: string;
   lineNumber?: number;
   diffContext?: string;
   threadMessages: Array<{ author: string; body: string; createdAt: string }>;
+  /** Task-specific instruction (e.g. from a slash command) replacing the default ask */
+  instruction?: string;
 }): string {
-  let prompt = `# Merge Request: ${opts.mrTitle}\n**URL**: ${opts.mrUrl}\n\n`;
+  const { subject } = opts;
+  let prompt = `# ${SUBJECT_HEADINGS[subject.kind]}: ${subject.title}\n**URL**: ${subject.url}\n\n`;
+
+  if (subject.description !== undefined) {
+    prompt += `## Description\n${subject.description || "(no description)"}\n\n`;
+  }
 
   if (opts.filePath) {
     prompt += `## File Context\n**File**: \`${opts.filePath}\``;
@@ -126,7 +172,45 @@ export function buildCommentReplyPrompt(opts: {
     prompt += `**${msg.author}** (${msg.createdAt}):\n${msg.body}\n\n---\n\n`;
   }
 
-  prompt += `Please respond to the latest message in this discussion thread. Provide a helpful and specific answer.`;
+  prompt += opts.instruction
+    ? `The latest message is a bot command. ${opts.instruction}`
+    : `Please respond to the latest message in this discussion thread. Provide a helpful and specific answer.`;
+
+  return prompt;
+}
+
+/**
+ * Build the user prompt for a failed-pipeline diagnosis session.
+ */
+export function buildPipelineDiagnosisPrompt(opts: {
+  mrTitle: string;
+  mrUrl: string;
+  pipelineUrl: string;
+  ref: string;
+  sha: string;
+  jobLogs: FailedJobLog[];
+  diffs?: DiffFile[];
+}): string {
+  let prompt =
+    `# Merge Request: ${opts.mrTitle}\n**URL**: ${opts.mrUrl}\n\n` +
+    `## Failed Pipeline\n**Pipeline**: ${opts.pipelineUrl}\n` +
+    `**Ref**: \`${opts.ref}\` at \`${opts.sha.slice(0, 8)}\`\n\n`;
+
+  prompt += `## Failed Jobs (${opts.jobLogs.length})\n\n`;
+  for (const job of opts.jobLogs) {
+    prompt +=
+      `### ${job.name} (stage: ${job.stage}` +
+      `${job.failureReason ? `, reason: ${job.failureReason}` : ""})\n` +
+      `${job.webUrl}\n\`\`\`\n${job.log}\n\`\`\`\n\n`;
+  }
+
+  if (opts.diffs && opts.diffs.length > 0) {
+    prompt += `## Merge Request Changes (${opts.diffs.length} file(s))\n\n${formatFileDiffs(opts.diffs)}\n\n`;
+  }
+
+  prompt +=
+    `---\n\nDiagnose why this pipeline failed. The repository is available in your working directory — ` +
+    `read the failing code, tests and CI configuration before concluding.`;
 
   return prompt;
 }
@@ -0,0 +1,46 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const PROFILE_DIR_CANDIDATES = [
+  join(process.cwd(), "src", "prompts", "review-profiles"),
+  join(process.cwd(), "prompts", "review-profiles"),
+];
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Whether `name` can be a review profile. Profiles come from label names,
+ * which anyone who can edit labels controls, and end up in the system prompt.
+ */
+export function isReviewProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Load the runtime-editable prompt for a review profile
+ * (`review-profiles/<profile>.md`).
+ *
+ * Returns undefined when the profile has no prompt file, in which case the
+ * reviewer ignores the profile.
+ */
+export async function loadReviewProfilePrompt(profile: string): Promise<string | undefined> {
+  if (!isReviewProfileName(profile)) {
+    console.warn(`[reviewer] Ignoring invalid review profile name: "${profile}"`);
+    return undefined;
+  }
+
+  for (const dir of PROFILE_DIR_CANDIDATES) {
+    const path = join(dir, `${profile}.md`);
+    try {
+      const content = (await readFile(path, "utf-8")).trim();
+      if (content.length > 0) {
+        console.log(`[reviewer] Loaded review profile "${profile}" from ${path}`);
+        return content;
+      }
+    } catch {
+      // profile file not found, try next
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,147 @@
+import { join } from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from "vitest";
+import { handleWebhookEvent } from "./handlers.js";
+import { describeWebhookEvent, parseReplayArgs, replayWebhookPayload, rewriteCloneUrls } from "./replay.js";
+import type { MergeRequestWebhookPayload } from "./types.js";
+
+vi.mock("./handlers.js", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./handlers.js")>(),
+  handleWebhookEvent: vi.fn(),
+}));
+
+const FIXTURES = join(__dirname, "..", "test", "fixtures");
+
+describe("parseReplayArgs", () => {
+  it("parses a payload path", () => {
+    expect(parseReplayArgs(["payload.json"])).toEqual({
+      payloadPath: "payload.json",
+      run: false,
+      gitlabUrl: undefined,
+    });
+  });
+
+  it("parses --run and --gitlab-url", () => {
+    expect(
+      parseReplayArgs(["payload.json", "--run", "--gitlab-url", "http://localhost:8080"]),
+    ).toEqual({
+      payloadPath: "payload.json",
+      run: true,
+      gitlabUrl: "http://localhost:8080",
+    });
+  });
+
+  it("requires exactly one payload file", () => {
+    expect(() => parseReplayArgs([])).toThrow(/exactly one payload file/);
+    expect(() => parseReplayArgs(["a.json", "b.json"])).toThrow(/exactly one payload file/);
+  });
+
+  it("rejects unknown options with usage", () => {
+    expect(() => parseReplayArgs(["payload.json", "--dry"])).toThrow(/Usage: gitlab-copilot replay/);
+  });
+
+  it("rejects --gitlab-url without --run", () => {
+    expect(() =>
+      parseReplayArgs(["payload.json", "--gitlab-url", "http://localhost:8080"]),
+    ).toThrow(/only applies together with --run/);
+  });
+});
+
+describe("replayWebhookPayload", () => {
+  let logSpy: MockInstance<typeof console.log>;
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.stubEnv("GITLAB_BOT_USERNAME", "copilot-reviewer");
+    vi.stubEnv("REVIEW_TRIGGER_LABELS", "");
+    vi.stubEnv("PIPELINE_DIAGNOSIS", "");
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    vi.unstubAllEnvs();
+  });
+
+  const logged = () => logSpy.mock.calls.map((call) => String(call[0]));
+
+  it("classifies a saved payload offline and prints the decision", async () => {
+    const event = await replayWebhookPayload({
+      payloadPath: join(FIXTURES, "webhook-reviewer-added.json"),
+      run: false,
+    });
+
+    expect(event.type).toBe("review");
+    expect(logged()).toContain("[replay] Decision: review — review MR !7");
+    expect(logged()).toContain(
+      "[replay] Classification only — pass --run to execute the pipeline",
+    );
+  });
+
+  it("prints the ignore reason", async () => {
+    const event = await replayWebhookPayload({
+      payloadPath: join(FIXTURES, "webhook-pipeline-failed.json"),
+      run: false,
+    });
+
+    expect(event.type).toBe("ignore");
+    expect(logged()).toContain(
+      "[replay] Decision: ignore — Pipeline event did not match diagnosis conditions",
+    );
+  });
+
+  it("uses the trigger settings from the environment", async () => {
+    vi.stubEnv("PIPELINE_DIAGNOSIS", "true");
+
+    const event = await replayWebhookPayload({
+      payloadPath: join(FIXTURES, "webhook-pipeline-failed.json"),
+      run: false,
+    });
+
+    expect(event.type).toBe("pipeline_failure");
+    expect(describeWebhookEvent(event)).toMatch(/^pipeline_failure — diagnose pipeline #\d+ of MR !7$/);
+  });
+
+  it("runs the pipeline with API calls and clones pointed at --gitlab-url", async () => {
+    // No CI_SERVER_URL / GITLAB_URL, like on a developer machine
+    vi.stubEnv("CI_SERVER_URL", undefined);
+    vi.stubEnv("GITLAB_URL", undefined);
+    vi.stubEnv("GITLAB_TOKEN", "glpat-test");
+    vi.stubEnv("GITHUB_TOKEN", "ghp-test");
+
+    await replayWebhookPayload({
+      payloadPath: join(FIXTURES, "webhook-reviewer-added.json"),
+      run: true,
+      gitlabUrl: "http://localhost:8080/",
+    });
+
+    const [payload, config] = vi.mocked(handleWebhookEvent).mock.calls[0]!;
+    const mrPayload = payload as MergeRequestWebhookPayload;
+    expect(config.gitlabUrl).toBe("http://localhost:8080");
+    expect(mrPayload.project.http_url).toBe("http://localhost:8080/my-group/my-project.git");
+    expect(mrPayload.object_attributes.source.git_http_url).toBe("http://localhost:8080/my-group/my-project.git");
+    expect(JSON.stringify(payload)).not.toContain("gitlab.example.com/my-group/my-project.git");
+  });
+
+  it("fails clearly on invalid JSON", async () => {
+    await expect(
+      replayWebhookPayload({ payloadPath: join(__dirname, "replay.ts"), run: false }),
+    ).rejects.toThrow(/Invalid JSON in/);
+  });
+});
+
+describe("rewriteCloneUrls", () => {
+  it("moves clone URLs at any depth to the override, keeping the path", () => {
+    const payload = {
+      project: { http_url: "https://gitlab.example.com/group/app.git", web_url: "https://gitlab.example.com/group/app" },
+      merge_request: { source: { git_http_url: "https://gitlab.example.com/jdoe/app.git" } },
+      builds: [{ runner: null }],
+    };
+
+    rewriteCloneUrls(payload, "http://localhost:8080/gitlab");
+
+    expect(payload).toEqual({
+      project: { http_url: "http://localhost:8080/gitlab/group/app.git", web_url: "https://gitlab.example.com/group/app" },
+      merge_request: { source: { git_http_url: "http://localhost:8080/gitlab/jdoe/app.git" } },
+      builds: [{ runner: null }],
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Local replay of saved webhook payloads (`gitlab-copilot replay payload.json`).
+ *
+ * Loads a payload file instead of $TRIGGER_PAYLOAD and prints how
+ * `classifyWebhookEvent` routes it. Classification only needs
+ * GITLAB_BOT_USERNAME (plus the optional trigger settings), so it runs
+ * offline. With `--run` the full handler pipeline is executed as well;
+ * `--gitlab-url` points it (API calls and clones) at a stubbed GitLab.
+ */
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { loadClassificationConfig, loadConfig, type ClassificationConfig } from "./config.js";
+import { classifyEvent, handleWebhookEvent } from "./handlers.js";
+import type { WebhookEvent } from "./webhook.js";
+import type { WebhookPayload } from "./types.js";
+
+export const REPLAY_USAGE =
+  "Usage: gitlab-copilot replay <payload.json> [--run] [--gitlab-url <url>]\n\n" +
+  "  --run               Execute the full pipeline (clone, Copilot session, GitLab writes)\n" +
+  "  --gitlab-url <url>  GitLab API base URL for --run, e.g. a local stub server";
+
+export interface ReplayOptions {
+  payloadPath: string;
+  /** Run the matching handler after classifying */
+  run: boolean;
+  /** Overrides CI_SERVER_URL / GITLAB_URL when running the pipeline */
+  gitlabUrl?: string;
+}
+
+/**
+ * Parse the arguments following the `replay` subcommand.
+ */
+export function parseReplayArgs(args: string[]): ReplayOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        run: { type: "boolean", default: false },
+        "gitlab-url": { type: "string" },
+      },
+    });
+  } catch (err) {
+    throw new Error(`${err instanceof Error ? err.message : String(err)}\n\n${REPLAY_USAGE}`);
+  }
+
+  const { values, positionals } = parsed;
+  if (positionals.length !== 1) {
+    throw new Error(`Expected exactly one payload file.\n\n${REPLAY_USAGE}`);
+  }
+
+  const gitlabUrl = values["gitlab-url"];
+  if (gitlabUrl !== undefined && !values.run) {
+    throw new Error(`--gitlab-url only applies together with --run.\n\n${REPLAY_USAGE}`);
+  }
+
+  return { payloadPath: positionals[0]!, run: values.run, gitlabUrl };
+}
+
+/**
+ * Describe the routing decision for a classified event in one line.
+ */
+export function describeWebhookEvent(event: WebhookEvent): string {
+  switch (event.type) {
+    case "review": {
+      const mr = `MR !${event.payload.object_attributes.iid}`;
+      return event.profile
+        ? `review — full "${event.profile}" profile review of ${mr}`
+        : `review — review ${mr}`;
+    }
+    case "comment_reply":
+      return (
+        `comment_reply — reply in discussion ${event.payload.object_attributes.discussion_id} ` +
+        `on MR !${event.payload.merge_request?.iid}`
+      );
+    case "issue_reply":
+      return (
+        `issue_reply — reply in discussion ${event.payload.object_attributes.discussion_id} ` +
+        `on issue #${event.payload.issue?.iid}`
+      );
+    case "commit_reply":
+      return (
+        `commit_reply — reply in discussion ${event.payload.object_attributes.discussion_id} ` +
+        `on commit ${event.payload.commit?.id.slice(0, 8)}`
+      );
+    case "command": {
+      const args = event.command.args ? ` ${event.command.args}` : "";
+      const name = event.command.name === "unknown"
+        ? `unknown command /${event.command.raw} (replies with help)`
+        : `/${event.command.name}${args}`;
+      return `command — ${name} on MR !${event.payload.merge_request?.iid}`;
+    }
+    case "pipeline_failure":
+      return (
+        `pipeline_failure — diagnose pipeline #${event.payload.object_attributes.id} ` +
+        `of MR !${event.payload.merge_request?.iid}`
+      );
+    case "ignore":
+      return `ignore — ${event.reason}`;
+  }
+}
+
+async function loadPayloadFile(path: string): Promise<WebhookPayload> {
+  const raw = await readFile(path, "utf-8");
+  try {
+    return JSON.parse(raw) as WebhookPayload;
+  } catch (err) {
+    throw new Error(
+      `Invalid JSON in ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/**
+ * Point the payload's clone URLs (`http_url`, `git_http_url`, at any depth)
+ * at `gitlabUrl`, keeping the project path, so `--gitlab-url` also moves
+ * the clone away from the instance the payload was recorded on.
+ */
+export function rewriteCloneUrls(value: unknown, gitlabUrl: string): void {
+  if (Array.isArray(value)) {
+    for (const item of value) rewriteCloneUrls(item, gitlabUrl);
+    return;
+  }
+  if (typeof value !== "object" || value === null) return;
+
+  const record = value as Record<string, unknown>;
+  for (const [key, field] of Object.entries(record)) {
+    if ((key === "http_url" || key === "git_http_url") && typeof field === "string") {
+      record[key] = `${gitlabUrl}${new URL(field).pathname}`;
+    } else {
+      rewriteCloneUrls(field, gitlabUrl);
+    }
+  }
+}
+
+function describeClassificationConfig(config: ClassificationConfig): string {
+  const labels = config.reviewTriggerLabels.length > 0
+    ? config.reviewTriggerLabels.join(", ")
+    : "none";
+  return (
+    `bot @${config.gitlabBotUsername}, trigger labels: ${labels}, ` +
+    `pipeline diagnosis: ${config.pipelineDiagnosis ? "on" : "off"}`
+  );
+}
+
+/**
+ * Classify a saved payload and print the decision. The `[webhook]` lines
+ * logged during classification carry the reasoning behind it.
+ */
+export async function replayWebhookPayload(opts: ReplayOptions): Promise<WebhookEvent> {
+  const payload = await loadPayloadFile(opts.payloadPath);
+  console.log(`[replay] Loaded ${payload.object_kind} event from ${opts.payloadPath}`);
+
+  const classification = loadClassificationConfig();
+  console.log(`[replay] Classifying with ${describeClassificationConfig(classification)}`);
+
+  const event = classifyEvent(payload, classification);
+  console.log(`[replay] Decision: ${describeWebhookEvent(event)}`);
+
+  if (!opts.run) {
+    console.log("[replay] Classification only — pass --run to execute the pipeline");
+    return event;
+  }
+
+  const config = loadConfig({ gitlabUrl: opts.gitlabUrl });
+  if (opts.gitlabUrl) {
+    rewriteCloneUrls(payload, config.gitlabUrl);
+  }
+
+  console.log(`[replay] Running the full pipeline against ${config.gitlabUrl}…`);
+  await handleWebhookEvent(payload, config);
+  return event;
+}
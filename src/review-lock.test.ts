@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { REVIEW_LOCK_EMOJI, acquireReviewLock, type ReviewLockClient } from "./review-lock.js";
+import type { AwardEmoji, AwardableTarget } from "./types.js";
+
+const BOT = "copilot-reviewer";
+const NOW = Date.parse("2026-02-16T10:00:00Z");
+
+function makeAward(id: number, createdAt: string, username = BOT, name = REVIEW_LOCK_EMOJI): AwardEmoji {
+  return {
+    id,
+    name,
+    user: { id: 99, name: username, username, avatar_url: "" },
+    created_at: createdAt,
+  };
+}
+
+/** In-memory award emoji store that rejects duplicate awards like GitLab. */
+function createFakeClient(initial: AwardEmoji[] = []) {
+  const awards = [...initial];
+  let nextId = 100;
+
+  const client = {
+    getAwardEmoji: vi.fn(async (_target: AwardableTarget) => [...awards]),
+    awardEmoji: vi.fn(async (
+      _target: AwardableTarget,
+      name: string,
+    ): Promise<AwardEmoji | undefined> => {
+      if (awards.some((a) => a.name === name && a.user.username === BOT)) {
+        throw new Error("GitLab API error: 404 Not Found – Award Emoji Name has already been taken");
+      }
+      const award = makeAward(nextId++, new Date(NOW).toISOString(), BOT, name);
+      awards.push(award);
+      return award;
+    }),
+    deleteAwardEmoji: vi.fn(async (_target: AwardableTarget, awardId: number) => {
+      const index = awards.findIndex((a) => a.id === awardId);
+      if (index !== -1) awards.splice(index, 1);
+    }),
+  } satisfies ReviewLockClient;
+
+  return { client, awards };
+}
+
+describe("acquireReviewLock", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("takes a free lock and removes it on release", async () => {
+    // Someone else's ⏳ does not count as a lock
+    const { client, awards } = createFakeClient([makeAward(1, "2026-02-16T09:59:00Z", "johndoe")]);
+    const botLocks = () => awards.filter((a) => a.user.username === BOT);
+
+    const lock = await acquireReviewLock(client, 42, 7, BOT, { now: () => NOW });
+
+    expect(lock?.waited).toBe(false);
+    expect(botLocks()).toHaveLength(1);
+
+    await lock!.release();
+    expect(botLocks()).toHaveLength(0);
+    expect(awards).toHaveLength(1); // other users' reactions stay
+  });
+
+  it("waits for a running review to release the lock", async () => {
+    const { client, awards } = createFakeClient([makeAward(1, "2026-02-16T09:55:00Z")]);
+    const sleep = vi.fn(async () => {
+      // The other review finishes while we sleep
+      awards.splice(0, awards.length);
+    });
+
+    const lock = await acquireReviewLock(client, 42, 7, BOT, { now: () => NOW, sleep });
+
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(lock?.waited).toBe(true);
+  });
+
+  it("gives up after the maximum wait", async () => {
+    const { client } = createFakeClient([makeAward(1, "2026-02-16T09:55:00Z")]);
+    let now = NOW;
+    const sleep = vi.fn(async (ms: number) => {
+      now += ms;
+    });
+
+    const lock = await acquireReviewLock(client, 42, 7, BOT, {
+      now: () => now,
+      sleep,
+      pollIntervalMs: 1_000,
+      maxWaitMs: 3_000,
+    });
+
+    expect(lock).toBeUndefined();
+    expect(sleep).toHaveBeenCalledTimes(3);
+    expect(client.awardEmoji).not.toHaveBeenCalled();
+  });
+
+  it("takes over an expired lock", async () => {
+    const { client } = createFakeClient([makeAward(1, "2026-02-16T09:00:00Z")]);
+
+    const lock = await acquireReviewLock(client, 42, 7, BOT, { now: () => NOW });
+
+    expect(client.deleteAwardEmoji).toHaveBeenCalledWith(
+      { kind: "merge_request", projectId: 42, mrIid: 7 },
+      1,
+    );
+    expect(lock?.waited).toBe(false);
+  });
+
+  it("waits when it loses the race for the lock", async () => {
+    const { client, awards } = createFakeClient();
+    // Another review awards the emoji between our check and our award
+    client.getAwardEmoji.mockImplementationOnce(async () => {
+      const snapshot = [...awards];
+      awards.push(makeAward(1, "2026-02-16T10:00:00Z"));
+      return snapshot;
+    });
+    const sleep = vi.fn(async () => {
+      awards.splice(0, awards.length);
+    });
+
+    const lock = await acquireReviewLock(client, 42, 7, BOT, { now: () => NOW, sleep });
+
+    expect(client.awardEmoji).toHaveBeenCalledTimes(2);
+    expect(lock?.waited).toBe(true);
+  });
+
+  it("rethrows award failures that are not lock contention", async () => {
+    const { client } = createFakeClient();
+    client.awardEmoji.mockRejectedValueOnce(new Error("GitLab API error: 403 Forbidden"));
+
+    await expect(acquireReviewLock(client, 42, 7, BOT, { now: () => NOW })).rejects.toThrow("403");
+  });
+
+  it("treats DRY_RUN awards as acquired", async () => {
+    const { client } = createFakeClient();
+    client.awardEmoji.mockResolvedValueOnce(undefined);
+
+    const lock = await acquireReviewLock(client, 42, 7, BOT, { now: () => NOW });
+    await lock!.release();
+
+    expect(client.deleteAwardEmoji).not.toHaveBeenCalled();
+  });
+});
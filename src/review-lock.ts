@@ -0,0 +1,113 @@
+import type { AwardEmoji, AwardableTarget } from "./types.js";
+
+// ─── Per-MR review lock ─────────────────────────────────────────────────────
+
+/**
+ * Reviews of the same MR must not run side by side: CI jobs triggered by
+ * quick successive events would both review and both post. CI jobs share no
+ * state, so the lock lives on the MR itself — an award emoji by the bot
+ * user. GitLab allows each user only one award per emoji, which makes
+ * taking the lock atomic, and unlike notes it sends no notifications.
+ */
+export const REVIEW_LOCK_EMOJI = "hourglass_flowing_sand";
+
+/** A lock older than this belongs to a crashed or killed job */
+const LOCK_EXPIRY_MS = 20 * 60_000;
+const LOCK_POLL_INTERVAL_MS = 15_000;
+const LOCK_MAX_WAIT_MS = 10 * 60_000;
+
+export interface ReviewLockClient {
+  getAwardEmoji(target: AwardableTarget): Promise<AwardEmoji[]>;
+  awardEmoji(target: AwardableTarget, name: string): Promise<AwardEmoji | undefined>;
+  deleteAwardEmoji(target: AwardableTarget, awardId: number): Promise<void>;
+}
+
+export interface ReviewLockOptions {
+  pollIntervalMs?: number;
+  maxWaitMs?: number;
+  expiryMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ReviewLock {
+  /** True when another review held the lock and this one had to wait */
+  waited: boolean;
+  release(): Promise<void>;
+}
+
+function findLockAward(awards: AwardEmoji[], botUsername: string): AwardEmoji | undefined {
+  return awards.find(
+    (award) => award.name === REVIEW_LOCK_EMOJI && award.user.username === botUsername,
+  );
+}
+
+/**
+ * Take the review lock for an MR, waiting for a running review to finish.
+ *
+ * Returns undefined if the lock is still held after the maximum wait.
+ * Expired locks are removed and taken over.
+ */
+export async function acquireReviewLock(
+  gitlab: ReviewLockClient,
+  projectId: number,
+  mrIid: number,
+  botUsername: string,
+  opts: ReviewLockOptions = {},
+): Promise<ReviewLock | undefined> {
+  const pollIntervalMs = opts.pollIntervalMs ?? LOCK_POLL_INTERVAL_MS;
+  const maxWaitMs = opts.maxWaitMs ?? LOCK_MAX_WAIT_MS;
+  const expiryMs = opts.expiryMs ?? LOCK_EXPIRY_MS;
+  const now = opts.now ?? Date.now;
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  const target: AwardableTarget = { kind: "merge_request", projectId, mrIid };
+  const startedAt = now();
+  let waited = false;
+
+  for (;;) {
+    const held = findLockAward(
+      await gitlab.getAwardEmoji(target),
+      botUsername,
+    );
+
+    if (held && now() - Date.parse(held.created_at) > expiryMs) {
+      console.warn(`[review] Removing expired review lock from ${held.created_at}`);
+      await gitlab.deleteAwardEmoji(target, held.id);
+      continue;
+    }
+
+    if (!held) {
+      try {
+        // undefined in DRY_RUN mode, where nothing is awarded
+        const award = await gitlab.awardEmoji(target, REVIEW_LOCK_EMOJI);
+        console.log(`[review] Acquired review lock for MR !${mrIid}`);
+        return {
+          waited,
+          release: async () => {
+            if (!award) return;
+            await gitlab.deleteAwardEmoji(target, award.id);
+            console.log(`[review] Released review lock for MR !${mrIid}`);
+          },
+        };
+      } catch (err) {
+        // Lost the race against another review — re-check who holds the lock
+        const winner = findLockAward(
+          await gitlab.getAwardEmoji(target),
+          botUsername,
+        );
+        if (!winner) throw err;
+      }
+    }
+
+    if (now() - startedAt >= maxWaitMs) {
+      return undefined;
+    }
+
+    if (!waited) {
+      console.log(`[review] Another review of MR !${mrIid} is running — waiting for it to finish…`);
+      waited = true;
+    }
+    await sleep(pollIntervalMs);
+  }
+}
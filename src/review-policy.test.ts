@@ -0,0 +1,223 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_REVIEW_POLICY,
+  applyCommentPolicy,
+  countDiffLines,
+  describeReviewPolicy,
+  findPolicySkipReason,
+  isDiffIgnored,
+  loadReviewPolicy,
+  matchesGlob,
+  matchesPathGlob,
+  parseReviewPolicy,
+  type ReviewPolicy,
+} from "./review-policy.js";
+import type { DiffFile, ReviewComment } from "./types.js";
+
+function makeDiff(newPath: string, diff = "", oldPath = newPath): DiffFile {
+  return {
+    old_path: oldPath,
+    new_path: newPath,
+    a_mode: "100644",
+    b_mode: "100644",
+    diff,
+    new_file: false,
+    renamed_file: oldPath !== newPath,
+    deleted_file: false,
+    too_large: false,
+    collapsed: false,
+  };
+}
+
+function makeComment(
+  file: string,
+  severity: ReviewComment["severity"],
+  body = `${severity} in ${file}`,
+): ReviewComment {
+  return { file, line: 1, body, severity };
+}
+
+function makePolicy(overrides: Partial<ReviewPolicy>): ReviewPolicy {
+  return { ...DEFAULT_REVIEW_POLICY, ...overrides };
+}
+
+describe("parseReviewPolicy", () => {
+  it("parses all settings", () => {
+    const policy = parseReviewPolicy(
+      [
+        "ignore_paths: [docs/, '*.lock']",
+        "target_branches:",
+        "  - main",
+        "  - release/*",
+        "skip_authors: renovate-bot",
+        "max_diff_lines: 3000",
+        "severity_threshold: warning",
+        "max_comments: 20",
+      ].join("\n"),
+    );
+
+    expect(policy).toEqual({
+      ignorePaths: ["docs/", "*.lock"],
+      targetBranches: ["main", "release/*"],
+      skipAuthors: ["renovate-bot"],
+      maxDiffLines: 3000,
+      severityThreshold: "warning",
+      maxComments: 20,
+    });
+  });
+
+  it("uses defaults for an empty file", () => {
+    expect(parseReviewPolicy("")).toEqual(DEFAULT_REVIEW_POLICY);
+  });
+
+  it("reports all validation errors at once", () => {
+    const parse = () =>
+      parseReviewPolicy(
+        [
+          "ignore_path: docs/",
+          "max_comments: ten",
+          "max_diff_lines: -5",
+          "severity_threshold: blocker",
+          "skip_authors: [1, 2]",
+        ].join("\n"),
+      );
+
+    expect(parse).toThrow(/^Invalid \.gitlab\/copilot-review\.yml:/);
+    expect(parse).toThrow(/unknown setting "ignore_path"/);
+    expect(parse).toThrow(/max_comments: expected a positive integer, got "ten"/);
+    expect(parse).toThrow(/max_diff_lines: expected a positive integer, got -5/);
+    expect(parse).toThrow(/severity_threshold: expected one of info, warning, critical, got "blocker"/);
+    expect(parse).toThrow(/skip_authors: expected a list of non-empty strings/);
+  });
+
+  it("rejects YAML syntax errors and non-mapping documents", () => {
+    expect(() => parseReviewPolicy("ignore_paths: [docs/")).toThrow(/^Invalid \.gitlab\/copilot-review\.yml:/);
+    expect(() => parseReviewPolicy("- docs/")).toThrow(/expected a mapping/);
+  });
+});
+
+describe("loadReviewPolicy", () => {
+  it("reads the policy from the target branch, or falls back to defaults", async () => {
+    const gitlab = { getRawFile: vi.fn(async () => undefined as string | undefined) };
+    expect(await loadReviewPolicy(gitlab, 42, "main")).toEqual({ policy: DEFAULT_REVIEW_POLICY });
+
+    gitlab.getRawFile.mockResolvedValue("max_comments: 5\n");
+    expect(await loadReviewPolicy(gitlab, 42, "main")).toEqual({
+      policy: makePolicy({ maxComments: 5 }),
+      source: ".gitlab/copilot-review.yml@main",
+    });
+    expect(gitlab.getRawFile).toHaveBeenLastCalledWith(42, ".gitlab/copilot-review.yml", "main");
+  });
+
+  it("ignores policy changes made in the MR under review", async () => {
+    const files: Record<string, string> = {
+      main: "skip_authors: []\nseverity_threshold: info\n",
+      // The MR's source branch tries to exempt its own author
+      "feature/login": "skip_authors: [johndoe]\nseverity_threshold: critical\n",
+    };
+    const gitlab = { getRawFile: vi.fn(async (_projectId: number, _path: string, ref: string) => files[ref]) };
+
+    const { policy } = await loadReviewPolicy(gitlab, 42, "main");
+
+    expect(policy).toEqual(makePolicy({ severityThreshold: "info" }));
+    expect(findPolicySkipReason(policy, { targetBranch: "main", authorUsername: "johndoe" })).toBeUndefined();
+    expect(gitlab.getRawFile).not.toHaveBeenCalledWith(42, ".gitlab/copilot-review.yml", "feature/login");
+  });
+});
+
+describe("describeReviewPolicy", () => {
+  it("lists the effective values", () => {
+    expect(describeReviewPolicy(makePolicy({ skipAuthors: ["renovate-bot"], maxComments: 5 }))).toBe(
+      "ignore_paths=[] target_branches=[all] skip_authors=[renovate-bot] " +
+      "max_diff_lines=unlimited severity_threshold=info max_comments=5",
+    );
+  });
+});
+
+describe("glob matching", () => {
+  it("matches branches against the whole name", () => {
+    expect(matchesGlob("release/1.2", ["release/*"])).toBe(true);
+    expect(matchesGlob("release/1.2/hotfix", ["release/*"])).toBe(false);
+    expect(matchesGlob("feature/main", ["main"])).toBe(false);
+  });
+
+  it("matches paths like .gitignore", () => {
+    expect(matchesPathGlob("docs/guide/intro.md", ["docs/"])).toBe(true);
+    expect(matchesPathGlob("src/docs/intro.md", ["docs/"])).toBe(false);
+    expect(matchesPathGlob("packages/web/yarn.lock", ["*.lock"])).toBe(true);
+    expect(matchesPathGlob("src/generated/api.ts", ["src/**/generated/**"])).toBe(true);
+    expect(matchesPathGlob("src/a.ts", ["src/?.ts"])).toBe(true);
+  });
+
+  it("only ignores renames when both paths match", () => {
+    const policy = makePolicy({ ignorePaths: ["docs/"] });
+    expect(isDiffIgnored(makeDiff("docs/a.md"), policy)).toBe(true);
+    expect(isDiffIgnored(makeDiff("src/a.md", "", "docs/a.md"), policy)).toBe(false);
+  });
+});
+
+describe("findPolicySkipReason", () => {
+  const policy = makePolicy({ targetBranches: ["main", "release/*"], skipAuthors: ["renovate-bot"] });
+
+  it("skips MRs into other target branches", () => {
+    expect(findPolicySkipReason(policy, { targetBranch: "develop" })).toBe(
+      'target branch "develop" is not in target_branches',
+    );
+  });
+
+  it("skips MRs by skipped authors", () => {
+    expect(
+      findPolicySkipReason(policy, { targetBranch: "main", authorUsername: "renovate-bot" }),
+    ).toBe("author @renovate-bot is in skip_authors");
+  });
+
+  it("reviews everything else", () => {
+    expect(
+      findPolicySkipReason(policy, { targetBranch: "release/2.0", authorUsername: "johndoe" }),
+    ).toBeUndefined();
+    expect(findPolicySkipReason(DEFAULT_REVIEW_POLICY, { targetBranch: "anything" })).toBeUndefined();
+  });
+});
+
+describe("countDiffLines", () => {
+  it("counts added and removed lines only", () => {
+    const diff = [
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "@@ -1,3 +1,3 @@",
+      " context",
+      "-old",
+      "+new",
+      "+more",
+    ].join("\n");
+    expect(countDiffLines([makeDiff("src/a.ts", diff), makeDiff("src/b.ts", "@@ -1 +1 @@\n-x\n+y")])).toBe(5);
+  });
+});
+
+describe("applyCommentPolicy", () => {
+  const comments = [
+    makeComment("src/a.ts", "info"),
+    makeComment("src/b.ts", "critical"),
+    makeComment("docs/c.md", "warning"),
+    makeComment("src/d.ts", "warning"),
+  ];
+
+  it("keeps everything by default", () => {
+    expect(applyCommentPolicy(comments, DEFAULT_REVIEW_POLICY)).toEqual({ comments, omitted: 0 });
+  });
+
+  it("drops comments below the severity threshold and on ignored paths", () => {
+    const result = applyCommentPolicy(
+      comments,
+      makePolicy({ severityThreshold: "warning", ignorePaths: ["docs/"] }),
+    );
+    expect(result.comments.map((c) => c.file)).toEqual(["src/b.ts", "src/d.ts"]);
+    expect(result.omitted).toBe(2);
+  });
+
+  it("keeps the most severe comments under the cap, in original order", () => {
+    const result = applyCommentPolicy(comments, makePolicy({ maxComments: 2 }));
+    expect(result.comments.map((c) => c.file)).toEqual(["src/b.ts", "docs/c.md"]);
+    expect(result.omitted).toBe(2);
+  });
+});
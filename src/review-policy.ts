@@ -0,0 +1,311 @@
+import { parse as parseYaml } from "yaml";
+import type { DiffFile, ReviewComment } from "./types.js";
+
+/**
+ * Per-project review policy, read from the MR's target branch — never from
+ * the MR itself, so an MR can't loosen the rules it is reviewed under.
+ *
+ * Example `.gitlab/copilot-review.yml`:
+ *
+ *   ignore_paths: ["docs/", "*.lock", "vendor/"]
+ *   target_branches: [main, "release/*"]
+ *   skip_authors: [renovate-bot]
+ *   max_diff_lines: 3000
+ *   severity_threshold: warning
+ *   max_comments: 20
+ */
+export const REVIEW_POLICY_PATH = ".gitlab/copilot-review.yml";
+
+export interface ReviewPolicy {
+  /** Glob patterns of files excluded from the review */
+  ignorePaths: string[];
+  /** Glob patterns of target branches to review (empty = all) */
+  targetBranches: string[];
+  /** MR author usernames whose MRs are not reviewed */
+  skipAuthors: string[];
+  /** Skip the review when the diff to review has more lines than this */
+  maxDiffLines?: number;
+  /** Lowest comment severity that gets posted */
+  severityThreshold: ReviewComment["severity"];
+  /** Maximum number of inline comments posted per review */
+  maxComments?: number;
+}
+
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = {
+  ignorePaths: [],
+  targetBranches: [],
+  skipAuthors: [],
+  severityThreshold: "info",
+};
+
+const SEVERITY_RANK: Record<ReviewComment["severity"], number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+const POLICY_KEYS = [
+  "ignore_paths",
+  "target_branches",
+  "skip_authors",
+  "max_diff_lines",
+  "severity_threshold",
+  "max_comments",
+] as const;
+
+// ─── Parsing & validation ───────────────────────────────────────────────────
+
+function readStringList(
+  raw: Record<string, unknown>,
+  key: string,
+  errors: string[],
+): string[] {
+  const value = raw[key];
+  if (value === undefined || value === null) return [];
+
+  const list = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(list) || list.some((item) => typeof item !== "string" || !item.trim())) {
+    errors.push(`${key}: expected a list of non-empty strings`);
+    return [];
+  }
+  return list.map((item: string) => item.trim());
+}
+
+function readPositiveInteger(
+  raw: Record<string, unknown>,
+  key: string,
+  errors: string[],
+): number | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    errors.push(`${key}: expected a positive integer, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  return value;
+}
+
+function readSeverity(
+  raw: Record<string, unknown>,
+  errors: string[],
+): ReviewComment["severity"] {
+  const value = raw["severity_threshold"];
+  if (value === undefined || value === null) return DEFAULT_REVIEW_POLICY.severityThreshold;
+
+  if (typeof value !== "string" || !Object.hasOwn(SEVERITY_RANK, value)) {
+    errors.push(
+      `severity_threshold: expected one of ${Object.keys(SEVERITY_RANK).join(", ")}, ` +
+      `got ${JSON.stringify(value)}`,
+    );
+    return DEFAULT_REVIEW_POLICY.severityThreshold;
+  }
+  return value as ReviewComment["severity"];
+}
+
+/**
+ * Parse and validate the policy file contents. All problems are reported
+ * together in one error so they can be fixed in a single push.
+ */
+export function parseReviewPolicy(text: string): ReviewPolicy {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (err) {
+    throw new Error(
+      `Invalid ${REVIEW_POLICY_PATH}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  // An empty file means "all defaults"
+  if (raw === null || raw === undefined) {
+    return { ...DEFAULT_REVIEW_POLICY };
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid ${REVIEW_POLICY_PATH}: expected a mapping of settings at the top level`);
+  }
+
+  const record = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(record)) {
+    if (!(POLICY_KEYS as readonly string[]).includes(key)) {
+      errors.push(`unknown setting "${key}" (supported: ${POLICY_KEYS.join(", ")})`);
+    }
+  }
+
+  const policy: ReviewPolicy = {
+    ignorePaths: readStringList(record, "ignore_paths", errors),
+    targetBranches: readStringList(record, "target_branches", errors),
+    skipAuthors: readStringList(record, "skip_authors", errors),
+    maxDiffLines: readPositiveInteger(record, "max_diff_lines", errors),
+    severityThreshold: readSeverity(record, errors),
+    maxComments: readPositiveInteger(record, "max_comments", errors),
+  };
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${REVIEW_POLICY_PATH}:\n${errors.map((error) => `  - ${error}`).join("\n")}`,
+    );
+  }
+
+  return policy;
+}
+
+export interface ReviewPolicyClient {
+  getRawFile(projectId: number, filePath: string, ref: string): Promise<string | undefined>;
+}
+
+/**
+ * Load the policy from the MR's target branch, falling back to defaults when
+ * the branch doesn't ship a policy file. Changes to the policy file in the
+ * MR under review take effect only once merged.
+ */
+export async function loadReviewPolicy(
+  gitlab: ReviewPolicyClient,
+  projectId: number,
+  targetBranch: string,
+): Promise<{ policy: ReviewPolicy; source?: string }> {
+  const text = await gitlab.getRawFile(projectId, REVIEW_POLICY_PATH, targetBranch);
+  if (text === undefined) {
+    return { policy: { ...DEFAULT_REVIEW_POLICY } };
+  }
+  return { policy: parseReviewPolicy(text), source: `${REVIEW_POLICY_PATH}@${targetBranch}` };
+}
+
+/**
+ * One-line summary of the effective policy values, for the run log.
+ */
+export function describeReviewPolicy(policy: ReviewPolicy): string {
+  const list = (items: string[], empty: string) =>
+    items.length > 0 ? items.join(", ") : empty;
+
+  return [
+    `ignore_paths=[${list(policy.ignorePaths, "")}]`,
+    `target_branches=[${list(policy.targetBranches, "all")}]`,
+    `skip_authors=[${list(policy.skipAuthors, "")}]`,
+    `max_diff_lines=${policy.maxDiffLines ?? "unlimited"}`,
+    `severity_threshold=${policy.severityThreshold}`,
+    `max_comments=${policy.maxComments ?? "unlimited"}`,
+  ].join(" ");
+}
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+/**
+ * Convert a glob to a RegExp matched against the whole path:
+ * `**` matches across directories, `*` and `?` stay within one segment,
+ * and a trailing `/` matches everything below a directory.
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.endsWith("/") ? `${glob}**` : glob;
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches zero directories
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(value: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(value));
+}
+
+/**
+ * Match a file path like .gitignore does: patterns without a slash
+ * (e.g. `*.lock`) match at any depth.
+ */
+export function matchesPathGlob(path: string, globs: string[]): boolean {
+  return matchesGlob(
+    path,
+    globs.map((glob) => (glob.includes("/") ? glob : `**/${glob}`)),
+  );
+}
+
+/**
+ * Whether a diff file is excluded by `ignore_paths`. Renames are only
+ * ignored when both the old and the new path match.
+ */
+export function isDiffIgnored(diff: DiffFile, policy: ReviewPolicy): boolean {
+  return (
+    matchesPathGlob(diff.new_path, policy.ignorePaths) &&
+    matchesPathGlob(diff.old_path, policy.ignorePaths)
+  );
+}
+
+/**
+ * Why a merge request should not be reviewed at all, if it shouldn't.
+ */
+export function findPolicySkipReason(
+  policy: ReviewPolicy,
+  mr: { targetBranch: string; authorUsername?: string },
+): string | undefined {
+  if (policy.targetBranches.length > 0 && !matchesGlob(mr.targetBranch, policy.targetBranches)) {
+    return `target branch "${mr.targetBranch}" is not in target_branches`;
+  }
+  if (mr.authorUsername && policy.skipAuthors.includes(mr.authorUsername)) {
+    return `author @${mr.authorUsername} is in skip_authors`;
+  }
+  return undefined;
+}
+
+/**
+ * Count the changed (added/removed) lines of the diffs to review.
+ */
+export function countDiffLines(diffs: DiffFile[]): number {
+  let count = 0;
+  for (const diff of diffs) {
+    for (const line of diff.diff.split("\n")) {
+      if (/^[+-]/.test(line) && !/^(\+\+\+|---) /.test(line)) {
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+/**
+ * Apply the ignore paths, severity threshold and comment cap to the review
+ * comments. When capping, the most severe comments are kept; otherwise the
+ * reviewer's order is preserved.
+ */
+export function applyCommentPolicy(
+  comments: ReviewComment[],
+  policy: ReviewPolicy,
+): { comments: ReviewComment[]; omitted: number } {
+  const threshold = SEVERITY_RANK[policy.severityThreshold];
+  const eligible = comments.filter(
+    (comment) =>
+      SEVERITY_RANK[comment.severity] >= threshold &&
+      !matchesPathGlob(comment.file, policy.ignorePaths),
+  );
+
+  let kept = eligible;
+  if (policy.maxComments !== undefined && eligible.length > policy.maxComments) {
+    const keep = new Set(
+      [...eligible]
+        .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+        .slice(0, policy.maxComments),
+    );
+    kept = eligible.filter((comment) => keep.has(comment));
+  }
+
+  return { comments: kept, omitted: comments.length - kept.length };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { REVIEW_STATUS_NAME, buildReviewStatus, reportReviewStatus } from "./review-status.js";
+import type { ReviewComment } from "./types.js";
+
+const TARGET = { projectId: 42, mrIid: 7, sha: "abc123def456", ref: "feature/login" };
+
+function makeComment(severity: ReviewComment["severity"]): ReviewComment {
+  return { file: "src/app.ts", line: 1, body: `${severity} finding`, severity };
+}
+
+describe("buildReviewStatus", () => {
+  it("succeeds without critical findings", () => {
+    expect(buildReviewStatus([makeComment("info"), makeComment("warning")])).toEqual({
+      state: "success",
+      description: "No critical findings (2 comment(s))",
+    });
+  });
+
+  it("fails with critical findings", () => {
+    expect(buildReviewStatus([makeComment("critical"), makeComment("critical"), makeComment("info")])).toEqual({
+      state: "failed",
+      description: "2 critical finding(s)",
+    });
+  });
+
+  it("fails while earlier critical threads are open", () => {
+    // Incremental review: nothing critical in the new commits
+    expect(buildReviewStatus([makeComment("info")], 1)).toEqual({
+      state: "failed",
+      description: "1 critical finding(s)",
+    });
+  });
+});
+
+describe("reportReviewStatus", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("sets the copilot-review status on the reviewed head", async () => {
+    const gitlab = { setCommitStatus: vi.fn(async () => {}) };
+
+    await reportReviewStatus(gitlab, TARGET, {
+      state: "success",
+      description: "No critical findings (0 comment(s))",
+      target_url: "https://gitlab.example.com/group/demo/-/merge_requests/7#note_1",
+    });
+
+    expect(gitlab.setCommitStatus).toHaveBeenCalledWith(42, 7, "abc123def456", {
+      name: REVIEW_STATUS_NAME,
+      ref: "feature/login",
+      state: "success",
+      description: "No critical findings (0 comment(s))",
+      target_url: "https://gitlab.example.com/group/demo/-/merge_requests/7#note_1",
+    });
+  });
+
+  it("attaches a fork MR's status by SHA alone", async () => {
+    const gitlab = { setCommitStatus: vi.fn(async () => {}) };
+
+    await reportReviewStatus(gitlab, { ...TARGET, ref: undefined }, { state: "pending" });
+
+    expect(gitlab.setCommitStatus).toHaveBeenCalledWith(42, 7, "abc123def456", {
+      name: REVIEW_STATUS_NAME,
+      state: "pending",
+    });
+  });
+
+  it("never throws when the API fails", async () => {
+    const gitlab = { setCommitStatus: vi.fn(async () => { throw new Error("GitLab API error: 403"); }) };
+
+    await expect(reportReviewStatus(gitlab, TARGET, { state: "pending" })).resolves.toBeUndefined();
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import type { CommitStatus, ReviewComment } from "./types.js";
+
+// ─── Review commit status ───────────────────────────────────────────────────
+
+/**
+ * Name of the commit status a review reports on the MR head, so merge
+ * checks can require it and it shows up in the pipeline widget.
+ */
+export const REVIEW_STATUS_NAME = "copilot-review";
+
+export interface ReviewStatusClient {
+  setCommitStatus(
+    projectId: number,
+    mrIid: number,
+    sha: string,
+    status: CommitStatus,
+  ): Promise<void>;
+}
+
+export interface ReviewStatusTarget {
+  projectId: number;
+  mrIid: number;
+  /** Head SHA being reviewed */
+  sha: string;
+  /**
+   * Source branch — picks the pipeline the status is attached to. Unset for
+   * fork MRs, whose branch doesn't exist in the target project.
+   */
+  ref?: string;
+}
+
+/**
+ * Final status of a finished review: failed while any critical finding is
+ * open. `openCriticalThreads` counts the bot's unresolved critical threads,
+ * including earlier reviews' ones an incremental review didn't look at.
+ */
+export function buildReviewStatus(
+  comments: ReviewComment[],
+  openCriticalThreads = 0,
+): Pick<CommitStatus, "state" | "description"> {
+  const critical = Math.max(
+    comments.filter((c) => c.severity === "critical").length,
+    openCriticalThreads,
+  );
+  return critical > 0
+    ? { state: "failed", description: `${critical} critical finding(s)` }
+    : { state: "success", description: `No critical findings (${comments.length} comment(s))` };
+}
+
+/**
+ * Set the `copilot-review` status. Errors are logged, not thrown: a missing
+ * status must not fail a review that was otherwise posted.
+ */
+export async function reportReviewStatus(
+  gitlab: ReviewStatusClient,
+  target: ReviewStatusTarget,
+  status: Pick<CommitStatus, "state" | "description" | "target_url">,
+): Promise<void> {
+  try {
+    await gitlab.setCommitStatus(target.projectId, target.mrIid, target.sha, {
+      name: REVIEW_STATUS_NAME,
+      ...(target.ref !== undefined && { ref: target.ref }),
+      ...status,
+    });
+    console.log(`[review] Set ${REVIEW_STATUS_NAME} status on ${target.sha.slice(0, 8)}: ${status.state}`);
+  } catch (err) {
+    console.warn(`[review] Could not set ${REVIEW_STATUS_NAME} status:`, err);
+  }
+}
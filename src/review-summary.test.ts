@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReviewHistoryEntry,
+  buildSummaryNoteBody,
+  findSummaryNote,
+  parseReviewHistory,
+  type ReviewHistoryEntry,
+} from "./review-summary.js";
+import type { ReviewComment } from "./types.js";
+
+const BOT = "copilot-reviewer";
+const NOW = new Date("2026-03-01T09:30:00Z");
+
+function makeComment(severity: ReviewComment["severity"]): ReviewComment {
+  return { file: "src/app.ts", line: 1, body: `${severity} finding`, severity };
+}
+
+function makeEntry(overrides: Partial<ReviewHistoryEntry> = {}): ReviewHistoryEntry {
+  return {
+    headSha: "aaaaaaaa11111111",
+    reviewedAt: "2026-02-28T16:05:00.000Z",
+    comments: 2,
+    critical: 1,
+    changes: "Initial review",
+    ...overrides,
+  };
+}
+
+describe("buildReviewHistoryEntry", () => {
+  it("describes what changed since the previous review", () => {
+    const comments = [makeComment("critical"), makeComment("info")];
+
+    expect(buildReviewHistoryEntry("aaaaaaaa1111", comments, undefined, undefined, NOW)).toEqual({
+      headSha: "aaaaaaaa1111",
+      reviewedAt: "2026-03-01T09:30:00.000Z",
+      comments: 2,
+      critical: 1,
+      changes: "Initial review",
+    });
+    expect(
+      buildReviewHistoryEntry("bbbbbbbb2222", [], makeEntry(), {
+        fromSha: "aaaaaaaa11111111",
+        toSha: "bbbbbbbb2222",
+        diffs: [],
+      }, NOW).changes,
+    ).toBe("0 file(s) changed since `aaaaaaaa`");
+    expect(buildReviewHistoryEntry("bbbbbbbb2222", [], makeEntry(), undefined, NOW).changes)
+      .toBe("Full review, previous `aaaaaaaa`");
+    expect(buildReviewHistoryEntry("aaaaaaaa11111111", [], makeEntry(), undefined, NOW).changes)
+      .toBe("Re-review, no new commits");
+  });
+});
+
+describe("buildSummaryNoteBody", () => {
+  it("renders the history newest first and round-trips it", () => {
+    const history = [
+      makeEntry(),
+      makeEntry({
+        headSha: "bbbbbbbb22222222",
+        reviewedAt: "2026-03-01T09:30:00.000Z",
+        comments: 0,
+        critical: 0,
+        changes: "3 file(s) changed since `aaaaaaaa`",
+      }),
+    ];
+
+    const body = buildSummaryNoteBody("## 🤖 Copilot Code Review\n\nLooks good.", history);
+
+    expect(body).toContain("Review history (2 version(s))");
+    expect(body).toContain(
+      "| `bbbbbbbb` | 2026-03-01 09:30 UTC | 0 | 3 file(s) changed since `aaaaaaaa` |\n" +
+      "| `aaaaaaaa` | 2026-02-28 16:05 UTC | 2 (1 🔴) | Initial review |",
+    );
+    expect(parseReviewHistory(body)).toEqual(history);
+  });
+
+  it("keeps only the latest 20 versions", () => {
+    const history = Array.from({ length: 25 }, (_, i) => makeEntry({ headSha: `${i}`.padStart(8, "0") }));
+
+    const parsed = parseReviewHistory(buildSummaryNoteBody("summary", history));
+
+    expect(parsed).toHaveLength(20);
+    expect(parsed[0]!.headSha).toBe("00000005");
+  });
+});
+
+describe("findSummaryNote", () => {
+  it("finds the bot's latest summary note", () => {
+    const summary = buildSummaryNoteBody("summary", [makeEntry()]);
+    const notes = [
+      { id: 1, body: summary, author: { username: BOT } },
+      { id: 2, body: "🤖 **Copilot Review**: No file changes detected in this MR.", author: { username: BOT } },
+      { id: 3, body: summary, author: { username: BOT } },
+      { id: 4, body: `> ${summary}`, author: { username: "johndoe" } },
+    ];
+
+    expect(findSummaryNote(notes, BOT)?.id).toBe(3);
+    expect(findSummaryNote(notes.slice(1, 2), BOT)).toBeUndefined();
+  });
+
+  it("treats notes without a readable history as empty", () => {
+    expect(parseReviewHistory("no history")).toEqual([]);
+    expect(parseReviewHistory("<!-- copilot-review:summary-history=bm90IGpzb24= -->")).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import type { IncrementalDiff, ReviewComment } from "./types.js";
+
+// ─── Review summary note ────────────────────────────────────────────────────
+
+/**
+ * Hidden marker identifying the bot's review summary note, so re-reviews
+ * edit it instead of posting another one (REVIEW_SUMMARY_MODE=update).
+ */
+const SUMMARY_MARKER = "<!-- copilot-review:summary -->";
+
+/**
+ * Hidden per-version history, carried along each time the note is edited.
+ * Base64-encoded JSON, so nothing in it can close the HTML comment.
+ */
+const SUMMARY_HISTORY_PATTERN = /<!-- copilot-review:summary-history=([A-Za-z0-9+/=]*) -->/;
+
+/** Oldest versions are dropped beyond this, to keep the note bounded */
+const MAX_HISTORY_ENTRIES = 20;
+
+export interface ReviewHistoryEntry {
+  headSha: string;
+  /** ISO timestamp */
+  reviewedAt: string;
+  comments: number;
+  critical: number;
+  /** What changed since the previous review, e.g. "2 file(s) changed since `abc12345`" */
+  changes: string;
+}
+
+/**
+ * The bot's latest summary note. Notes by other users are ignored, so a
+ * quoted marker can't make the bot edit someone else's note.
+ */
+export function findSummaryNote<T extends { id: number; body: string; author?: { username?: string } }>(
+  notes: T[],
+  botUsername: string,
+): T | undefined {
+  return notes
+    .filter((note) => note.author?.username === botUsername && note.body.includes(SUMMARY_MARKER))
+    .sort((a, b) => b.id - a.id)[0];
+}
+
+export function parseReviewHistory(body: string): ReviewHistoryEntry[] {
+  const encoded = body.match(SUMMARY_HISTORY_PATTERN)?.[1];
+  if (!encoded) return [];
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(encoded, "base64").toString("utf-8"));
+    return Array.isArray(parsed) ? (parsed as ReviewHistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * One history entry for the review being posted.
+ */
+export function buildReviewHistoryEntry(
+  headSha: string,
+  comments: ReviewComment[],
+  previous: ReviewHistoryEntry | undefined,
+  incrementalDiff: IncrementalDiff | undefined,
+  now = new Date(),
+): ReviewHistoryEntry {
+  let changes: string;
+  if (incrementalDiff) {
+    changes = `${incrementalDiff.diffs.length} file(s) changed since \`${incrementalDiff.fromSha.slice(0, 8)}\``;
+  } else if (!previous) {
+    changes = "Initial review";
+  } else if (previous.headSha === headSha) {
+    changes = "Re-review, no new commits";
+  } else {
+    changes = `Full review, previous \`${previous.headSha.slice(0, 8)}\``;
+  }
+
+  return {
+    headSha,
+    reviewedAt: now.toISOString(),
+    comments: comments.length,
+    critical: comments.filter((c) => c.severity === "critical").length,
+    changes,
+  };
+}
+
+function formatReviewedAt(iso: string): string {
+  return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * The summary note for update mode: the current review, then a collapsible
+ * table of every reviewed version (newest first), then the markers.
+ */
+export function buildSummaryNoteBody(summary: string, history: ReviewHistoryEntry[]): string {
+  const kept = history.slice(-MAX_HISTORY_ENTRIES);
+  const rows = [...kept].reverse().map((entry) =>
+    `| \`${entry.headSha.slice(0, 8)}\` | ${formatReviewedAt(entry.reviewedAt)} | ` +
+    `${entry.comments}${entry.critical > 0 ? ` (${entry.critical} 🔴)` : ""} | ${entry.changes} |`,
+  );
+  const encoded = Buffer.from(JSON.stringify(kept), "utf-8").toString("base64");
+
+  return (
+    `${summary}\n\n` +
+    `<details><summary>Review history (${kept.length} version(s))</summary>\n\n` +
+    `| Head | Reviewed | Comments | Changes |\n` +
+    `|------|----------|----------|---------|\n` +
+    `${rows.join("\n")}\n\n` +
+    `</details>\n\n` +
+    `${SUMMARY_MARKER}\n` +
+    `<!-- copilot-review:summary-history=${encoded} -->`
+  );
+}
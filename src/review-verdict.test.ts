@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { decideReviewVerdict, submitReviewVerdict, type ReviewVerdictClient } from "./review-verdict.js";
+import type { GitLabUser, ReviewComment } from "./types.js";
+
+const BOT = "copilot-reviewer";
+const TARGET = { projectId: 42, projectPath: "group/demo", mrIid: 7, headSha: "abc123def456" };
+
+function makeUser(id: number, username: string): GitLabUser {
+  return { id, username, name: username, avatar_url: "" };
+}
+
+function makeComment(severity: ReviewComment["severity"]): ReviewComment {
+  return { file: "src/app.ts", line: 1, body: `${severity} finding`, severity };
+}
+
+function createFakeClient(approvedBy: GitLabUser[] = []) {
+  return {
+    findUserByUsername: vi.fn(async (username: string) =>
+      username === BOT ? { id: 99, username } : undefined,
+    ),
+    getMergeRequestApprovals: vi.fn(async () => ({
+      approved: approvedBy.length > 0,
+      approved_by: approvedBy.map((user) => ({ user })),
+    })),
+    approveMergeRequest: vi.fn(async () => {}),
+    unapproveMergeRequest: vi.fn(async () => {}),
+    requestMergeRequestChanges: vi.fn(async () => {}),
+  } satisfies ReviewVerdictClient;
+}
+
+describe("decideReviewVerdict", () => {
+  it("requests changes only for critical findings", () => {
+    expect(decideReviewVerdict([])).toBe("approve");
+    expect(decideReviewVerdict([makeComment("info"), makeComment("warning")])).toBe("approve");
+    expect(decideReviewVerdict([makeComment("info"), makeComment("critical")])).toBe("request_changes");
+  });
+
+  it("requests changes while earlier critical threads are open", () => {
+    expect(decideReviewVerdict([makeComment("info")], 1)).toBe("request_changes");
+  });
+});
+
+describe("submitReviewVerdict", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("approves the reviewed head when nothing is critical", async () => {
+    const gitlab = createFakeClient([makeUser(10, "johndoe")]);
+
+    const verdict = await submitReviewVerdict(gitlab, TARGET, [makeComment("warning")], BOT);
+
+    expect(verdict).toBe("approve");
+    expect(gitlab.approveMergeRequest).toHaveBeenCalledWith(42, 7, "abc123def456");
+    expect(gitlab.requestMergeRequestChanges).not.toHaveBeenCalled();
+  });
+
+  it("does not approve twice", async () => {
+    const gitlab = createFakeClient([makeUser(99, BOT)]);
+
+    await submitReviewVerdict(gitlab, TARGET, [], BOT);
+
+    expect(gitlab.approveMergeRequest).not.toHaveBeenCalled();
+  });
+
+  it("requests changes for critical findings", async () => {
+    const gitlab = createFakeClient();
+
+    const verdict = await submitReviewVerdict(gitlab, TARGET, [makeComment("critical")], BOT);
+
+    expect(verdict).toBe("request_changes");
+    expect(gitlab.unapproveMergeRequest).not.toHaveBeenCalled();
+    expect(gitlab.requestMergeRequestChanges).toHaveBeenCalledWith(42, "group/demo", 7, 99);
+  });
+
+  it("does not approve an incremental review while earlier critical threads are open", async () => {
+    const gitlab = createFakeClient([makeUser(99, BOT)]);
+
+    // Nothing critical in the new commits, one critical thread from before
+    const verdict = await submitReviewVerdict(gitlab, TARGET, [makeComment("info")], BOT, 1);
+
+    expect(verdict).toBe("request_changes");
+    expect(gitlab.approveMergeRequest).not.toHaveBeenCalled();
+    expect(gitlab.unapproveMergeRequest).toHaveBeenCalledWith(42, 7);
+    expect(gitlab.requestMergeRequestChanges).toHaveBeenCalledWith(42, "group/demo", 7, 99);
+  });
+
+  it("revokes its earlier approval when a re-review finds critical issues", async () => {
+    const gitlab = createFakeClient([makeUser(10, "johndoe"), makeUser(99, BOT)]);
+
+    await submitReviewVerdict(gitlab, TARGET, [makeComment("critical")], BOT);
+
+    expect(gitlab.unapproveMergeRequest).toHaveBeenCalledWith(42, 7);
+    expect(gitlab.requestMergeRequestChanges).toHaveBeenCalled();
+  });
+
+  it("fails when the bot user does not exist", async () => {
+    const gitlab = createFakeClient();
+
+    await expect(
+      submitReviewVerdict(gitlab, TARGET, [makeComment("critical")], "missing-bot"),
+    ).rejects.toThrow('Bot user "missing-bot" was not found');
+  });
+});
@@ -0,0 +1,91 @@
+import type { MergeRequestApprovals, ReviewComment } from "./types.js";
+
+// ─── Review verdict ─────────────────────────────────────────────────────────
+
+/**
+ * Outcome of a review when REVIEW_APPROVAL is enabled: approve when nothing
+ * critical was found, otherwise request changes.
+ */
+export type ReviewVerdict = "approve" | "request_changes";
+
+export interface ReviewVerdictClient {
+  findUserByUsername(
+    username: string,
+  ): Promise<{ id: number; username: string } | undefined>;
+  getMergeRequestApprovals(projectId: number, mrIid: number): Promise<MergeRequestApprovals>;
+  approveMergeRequest(projectId: number, mrIid: number, sha: string): Promise<void>;
+  unapproveMergeRequest(projectId: number, mrIid: number): Promise<void>;
+  requestMergeRequestChanges(
+    projectId: number,
+    projectPath: string,
+    mrIid: number,
+    userId: number,
+  ): Promise<void>;
+}
+
+export interface ReviewVerdictTarget {
+  projectId: number;
+  /** e.g. "group/project" — reviewer states are set through GraphQL, which needs the path */
+  projectPath: string;
+  mrIid: number;
+  /** Head SHA the review covered; the approval is only valid for it */
+  headSha: string;
+}
+
+/**
+ * `openCriticalThreads` counts the bot's unresolved critical threads,
+ * including those from earlier reviews that this (incremental) review
+ * didn't look at again.
+ */
+export function decideReviewVerdict(
+  comments: ReviewComment[],
+  openCriticalThreads = 0,
+): ReviewVerdict {
+  return openCriticalThreads > 0 || comments.some((c) => c.severity === "critical")
+    ? "request_changes"
+    : "approve";
+}
+
+/**
+ * Approve the MR or request changes, based on the comments the review
+ * posted and the critical threads still open. On a re-review that finds
+ * critical issues, an earlier approval by the bot is revoked first.
+ */
+export async function submitReviewVerdict(
+  gitlab: ReviewVerdictClient,
+  target: ReviewVerdictTarget,
+  comments: ReviewComment[],
+  botUsername: string,
+  openCriticalThreads = 0,
+): Promise<ReviewVerdict> {
+  const { projectId, projectPath, mrIid, headSha } = target;
+  const verdict = decideReviewVerdict(comments, openCriticalThreads);
+
+  const approvals = await gitlab.getMergeRequestApprovals(projectId, mrIid);
+  const approvedByBot = approvals.approved_by.some(
+    (approval) => approval.user.username === botUsername,
+  );
+
+  if (verdict === "approve") {
+    if (approvedByBot) {
+      console.log(`[review] MR !${mrIid} is already approved by @${botUsername}`);
+    } else {
+      await gitlab.approveMergeRequest(projectId, mrIid, headSha);
+      console.log(`[review] Approved MR !${mrIid} at ${headSha.slice(0, 8)} (no critical findings)`);
+    }
+    return verdict;
+  }
+
+  if (approvedByBot) {
+    await gitlab.unapproveMergeRequest(projectId, mrIid);
+    console.log(`[review] Revoked the earlier approval of MR !${mrIid}`);
+  }
+
+  const botUser = await gitlab.findUserByUsername(botUsername);
+  if (!botUser) {
+    throw new Error(`Bot user "${botUsername}" was not found in GitLab`);
+  }
+  await gitlab.requestMergeRequestChanges(projectId, projectPath, mrIid, botUser.id);
+  console.log(`[review] Requested changes on MR !${mrIid} (critical findings)`);
+  return verdict;
+}
@@ -3,13 +3,23 @@ import { join } from "node:path";
 import { CopilotClient, approveAll } from "@github/copilot-sdk";
 import type { Config } from "./config.js";
 import type {
+  CommentReplySubject,
+  DiffFile,
+  FailedJobLog,
+  IncrementalDiff,
   MergeRequestCommentContext,
   MergeRequestDiffVersionDetail,
   ReviewResult,
 } from "./types.js";
 import { loadReviewSystemPrompt } from "./prompts/review-system.js";
 import { loadCommentReplySystemPrompt } from "./prompts/comment-reply-system.js";
-import { buildDiffPrompt, buildCommentReplyPrompt } from "./prompts/build-prompts.js";
+import { loadReviewProfilePrompt } from "./prompts/review-profile.js";
+import { loadPipelineDiagnosisSystemPrompt } from "./prompts/pipeline-diagnosis-system.js";
+import {
+  buildDiffPrompt,
+  buildCommentReplyPrompt,
+  buildPipelineDiagnosisPrompt,
+} from "./prompts/build-prompts.js";
 import { buildSubmitReviewTool, buildJiraIssueTool, parseReviewResponse } from "./tools.js";
 import { buildMcpServers } from "./mcp/config-loader.js";
 import { attachSessionListeners, buildSessionHooks } from "./session-hooks.js";
@@ -131,6 +141,10 @@ export interface ReviewOptions {
   targetBranch: string;
   diffVersion: MergeRequestDiffVersionDetail;
   mrComments?: MergeRequestCommentContext[];
+  /** Changes since the last review; when set, only these are reviewed */
+  incrementalDiff?: IncrementalDiff;
+  /** Review profile selected by a scoped trigger label (e.g. "security") */
+  profile?: string;
 }
 
 async function createOrResumeSession(
@@ -192,6 +206,15 @@ export async function reviewMergeRequest(
 
   let systemPrompt = await loadReviewSystemPrompt();
 
+  if (opts.profile) {
+    const profilePrompt = await loadReviewProfilePrompt(opts.profile);
+    if (profilePrompt) {
+      systemPrompt += `\n\n## Review Profile: ${opts.profile}\n\n${profilePrompt}`;
+    } else {
+      console.warn(`[reviewer] Unknown review profile "${opts.profile}", using the default review`);
+    }
+  }
+
   if (copilotInstructions) {
     systemPrompt +=
       `\n\n## Project-Specific Instructions (copilot-instructions.md)\n\n` +
@@ -246,10 +269,12 @@ export async function reviewMergeRequest(
       opts.targetBranch,
       diffVersion.diffs,
       opts.mrComments,
+      opts.incrementalDiff,
     );
 
     console.log(
-      `[reviewer] Sending ${diffVersion.diffs.length} file(s) for review ` +
+      `[reviewer] Sending ${opts.incrementalDiff?.diffs.length ?? diffVersion.diffs.length} file(s) for ` +
+      `${opts.incrementalDiff ? "incremental " : ""}review ` +
       `(prompt length: ${userPrompt.length} chars, workingDir: ${repoDir})`,
     );
 
@@ -322,18 +347,28 @@ export interface CommentReplyOptions {
   lineNumber?: number;
   /** The diff context for the file if available */
   diffContext?: string;
-  /** MR metadata for context */
-  mrTitle: string;
-  mrUrl: string;
+  /** The MR, issue or commit the discussion belongs to */
+  subject: CommentReplySubject;
+  /** Slash-command instruction replacing the default "respond to the thread" ask */
+  instruction?: string;
 }
 
+const SUBJECT_LABELS: Record<CommentReplySubject["kind"], string> = {
+  merge_request: "MR",
+  issue: "issue",
+  commit: "commit",
+};
+
 /**
  * Generate a reply to a comment thread using the Copilot SDK.
  */
 export async function replyToComment(
   opts: CommentReplyOptions,
 ): Promise<string> {
-  console.log(`[reviewer] 💬 Replying to comment on MR: "${opts.mrTitle}"`);
+  console.log(
+    `[reviewer] 💬 Replying to comment on ${SUBJECT_LABELS[opts.subject.kind]}: ` +
+    `"${opts.subject.title}"`,
+  );
   
   const { config, repoDir } = opts;
 
@@ -343,6 +378,24 @@ export async function replyToComment(
 
   let systemPrompt = await loadCommentReplySystemPrompt();
 
+  if (opts.subject.kind === "issue") {
+    systemPrompt +=
+      `\n\n## Issue Discussions\n\n` +
+      `This discussion is on a GitLab issue, not a merge request. There is no diff: ` +
+      `the working directory contains the project's default branch. Answer questions by ` +
+      `pointing to the relevant files and line numbers, and use regular code blocks ` +
+      `instead of suggestion blocks.`;
+  }
+
+  if (opts.subject.kind === "commit") {
+    systemPrompt +=
+      `\n\n## Commit Discussions\n\n` +
+      `This discussion is on a single commit, not a merge request. The working directory ` +
+      `is checked out at exactly that commit and the diff shows what the commit changed. ` +
+      `GitLab does not apply suggestions on commits, so use regular code blocks instead ` +
+      `of suggestion blocks.`;
+  }
+
   if (copilotInstructions) {
     systemPrompt +=
       `\n\n## Project-Specific Instructions (copilot-instructions.md)\n\n` +
@@ -381,12 +434,12 @@ export async function replyToComment(
     console.log(`[reviewer] Comment reply session created with model: ${config.copilotModel}`);
 
     const prompt = buildCommentReplyPrompt({
-      mrTitle: opts.mrTitle,
-      mrUrl: opts.mrUrl,
+      subject: opts.subject,
       filePath: opts.filePath,
       lineNumber: opts.lineNumber,
       diffContext: opts.diffContext,
       threadMessages: opts.threadMessages,
+      instruction: opts.instruction,
     });
 
     console.log(
@@ -426,3 +479,159 @@ export async function replyToComment(
     throw err;
   }
 }
+
+// ─── Pipeline Diagnosis ─────────────────────────────────────────────────────
+
+export interface PipelineDiagnosisOptions {
+  config: Config;
+  repoDir: string;
+  sessionId: string;
+  mrTitle: string;
+  mrUrl: string;
+  pipelineUrl: string;
+  ref: string;
+  sha: string;
+  jobLogs: FailedJobLog[];
+  /** MR diff, so failures can be traced back to the changes */
+  diffs?: DiffFile[];
+}
+
+/**
+ * Diagnose a failed MR pipeline from its job logs using the Copilot SDK.
+ * Returns a Markdown report with root cause and suggested fixes.
+ */
+export async function diagnosePipelineFailure(
+  opts: PipelineDiagnosisOptions,
+): Promise<string> {
+  console.log(`[reviewer] 🔧 Diagnosing failed pipeline for MR: "${opts.mrTitle}"`);
+
+  const { config, repoDir } = opts;
+
+  const { copilotInstructions, agentsInstructions, skillDirectories } =
+    await loadProjectInstructions(repoDir);
+
+  let systemPrompt = await loadPipelineDiagnosisSystemPrompt();
+
+  if (copilotInstructions) {
+    systemPrompt +=
+      `\n\n## Project-Specific Instructions (copilot-instructions.md)\n\n` +
+      copilotInstructions;
+  }
+
+  if (agentsInstructions) {
+    systemPrompt +=
+      `\n\n## Agent Instructions (agents.md)\n\n` +
+      agentsInstructions;
+  }
+
+  const client = new CopilotClient({
+    githubToken: config.githubToken,
+  });
+
+  try {
+    const jiraTool = buildJiraIssueTool(config);
+    const customTools = jiraTool ? [jiraTool] : undefined;
+    const mcpServers = await buildMcpServers(repoDir);
+
+    const session = await createOrResumeSession(
+      client,
+      opts.sessionId,
+      config,
+      repoDir,
+      systemPrompt,
+      skillDirectories,
+      customTools,
+      mcpServers,
+    );
+
+    const { detach, getUsage } = attachSessionListeners(session, config.logLevel);
+
+    console.log(`[reviewer] Pipeline diagnosis session created with model: ${config.copilotModel}`);
+
+    const prompt = buildPipelineDiagnosisPrompt({
+      mrTitle: opts.mrTitle,
+      mrUrl: opts.mrUrl,
+      pipelineUrl: opts.pipelineUrl,
+      ref: opts.ref,
+      sha: opts.sha,
+      jobLogs: opts.jobLogs,
+      diffs: opts.diffs,
+    });
+
+    console.log(
+      `[reviewer] Sending pipeline diagnosis request ` +
+      `(${opts.jobLogs.length} failed job(s), prompt: ${prompt.length} chars)`,
+    );
+
+    const response = await session.sendAndWait({
+      prompt,
+    }, 600000);
+
+    const responseContent = response?.data?.content ?? "";
+    console.log(`[reviewer] Got diagnosis (${responseContent.length} chars)`);
+
+    const usage = getUsage();
+    console.log(
+      `[reviewer] Usage: ${usage.requestCount} request(s), ` +
+      `${usage.inputTokens} input + ${usage.outputTokens} output tokens` +
+      (usage.cacheReadTokens > 0 ? ` (${usage.cacheReadTokens} cached)` : "") +
+      (usage.totalModelMultiplier > 0
+        ? `, total model multiplier: ${usage.totalModelMultiplier.toFixed(4)}`
+        : ""),
+    );
+
+    detach();
+    await session.destroy();
+    await client.stop();
+
+    return responseContent.trim();
+  } catch (err) {
+    try {
+      await client.stop();
+    } catch {
+      // ignore cleanup errors
+    }
+    throw err;
+  }
+}
+
+// ─── Session Management ─────────────────────────────────────────────────────
+
+/**
+ * Delete the persisted Copilot session for an MR so the next review or reply
+ * starts from a clean conversation.
+ *
+ * Returns false when there was no session to delete.
+ */
+export async function forgetSession(
+  config: Config,
+  sessionId: string,
+): Promise<boolean> {
+  const client = new CopilotClient({
+    githubToken: config.githubToken,
+  });
+
+  try {
+    try {
+      // Resuming loads the session from the configured config directory
+      const session = await client.resumeSession(sessionId, {
+        configDir: config.copilotConfigDir,
+        onPermissionRequest: approveAll,
+      });
+      await session.destroy();
+    } catch {
+      console.log(`[reviewer] No session to forget: ${sessionId}`);
+      return false;
+    }
+
+    await client.deleteSession(sessionId);
+    console.log(`[reviewer] Deleted session: ${sessionId}`);
+    return true;
+  } finally {
+    try {
+      await client.stop();
+    } catch {
+      // ignore cleanup errors
+    }
+  }
+}
@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+
+/**
+ * Standalone HTTP webhook receiver for the GitLab Copilot Reviewer.
+ *
+ * Long-running alternative to the CI trigger entrypoint (`index.ts`): instead
+ * of spinning up a pipeline per event, GitLab posts webhooks directly to this
+ * server, which runs the same review / comment-reply handlers in-process.
+ *
+ * Endpoints:
+ *   POST /webhook (or /) – receive GitLab merge request / note webhooks
+ *   GET  /health         – health check
+ *
+ * Flow:
+ *   1. Verify the X-Gitlab-Token header against GITLAB_WEBHOOK_SECRET
+ *   2. Read the JSON body (413 past 5 MB) and acknowledge with 202 Accepted
+ *   3. Queue the event; events are processed one at a time
+ *   4. Classify & dispatch via the shared handlers (see `handlers.ts`)
+ */
+
+import { createServer, type ServerResponse } from "node:http";
+import { loadWebhookServerConfig, type WebhookServerConfig } from "./config.js";
+import { handleWebhookEvent } from "./handlers.js";
+import {
+  isWebhookPayload,
+  readWebhookBody,
+  verifyWebhookToken,
+  WebhookBodyTooLargeError,
+} from "./webhook.js";
+import type { WebhookPayload } from "./types.js";
+
+function sendJson(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Run webhook events sequentially — each review clones a repository and
+ * holds a Copilot session, so running them side by side would compete for
+ * the same disk, CPU and session directory.
+ */
+function createEventQueue(config: WebhookServerConfig) {
+  let tail: Promise<void> = Promise.resolve();
+  let pending = 0;
+
+  return {
+    enqueue(payload: WebhookPayload): number {
+      pending++;
+      tail = tail
+        .then(() => handleWebhookEvent(payload, config))
+        .catch((err) => {
+          console.error("[server] Webhook event handling failed:", err);
+        })
+        .finally(() => {
+          // Handlers flag failures through the exit code for CI jobs; the
+          // server outlives the event, so the flag must not carry over
+          if (process.exitCode) {
+            console.error("[server] Webhook event finished with errors");
+          }
+          process.exitCode = undefined;
+          pending--;
+        });
+      return pending;
+    },
+    size: () => pending,
+  };
+}
+
+function startServer(config: WebhookServerConfig): void {
+  const queue = createEventQueue(config);
+
+  const server = createServer(async (req, res) => {
+    if (req.method === "GET" && req.url === "/health") {
+      sendJson(res, 200, { status: "ok", queued: queue.size() });
+      return;
+    }
+
+    if (req.method !== "POST" || (req.url !== "/webhook" && req.url !== "/")) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    if (!verifyWebhookToken(req.headers["x-gitlab-token"], config.webhookSecret)) {
+      console.warn("[server] Invalid webhook token");
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readWebhookBody(req);
+    } catch (err) {
+      if (err instanceof WebhookBodyTooLargeError) {
+        console.warn(`[server] ${err.message}`);
+        res.setHeader("Connection", "close");
+        sendJson(res, 413, { error: "Payload too large" });
+        return;
+      }
+      console.warn("[server] Could not read the request body:", err);
+      if (!res.destroyed) sendJson(res, 400, { error: "Could not read the request body" });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      console.error("[server] Invalid JSON body");
+      sendJson(res, 400, { error: "Invalid JSON" });
+      return;
+    }
+    if (!isWebhookPayload(payload)) {
+      console.error("[server] Body is not a webhook payload");
+      sendJson(res, 400, { error: "Invalid webhook payload" });
+      return;
+    }
+
+    // GitLab expects a fast response — reviews run after acknowledging
+    console.log(`[server] Received ${payload.object_kind} event`);
+    const position = queue.enqueue(payload);
+    sendJson(res, 202, { message: "Event accepted", queued: position });
+  });
+
+  server.listen(config.webhookPort, () => {
+    console.log(`[server] Webhook receiver listening on port ${config.webhookPort}`);
+    console.log("[server] POST /webhook  – receive GitLab webhooks");
+    console.log("[server] GET  /health   – health check");
+  });
+
+  const shutdown = () => {
+    console.log("[server] Shutting down…");
+    server.close(() => process.exit(0));
+    setTimeout(() => process.exit(1), 5_000);
+  };
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+}
+
+startServer(loadWebhookServerConfig());
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { buildFingerprintMarker } from "./fingerprint.js";
+import {
+  buildAddressedReply,
+  buildStillAppliesReply,
+  containsLine,
+  countOpenCriticalThreads,
+  findOpenBotThreads,
+  followUpBotThreads,
+  type OpenBotThread,
+} from "./thread-followup.js";
+import type { MergeRequestDiscussion, MergeRequestDiscussionNote } from "./types.js";
+
+const BOT = "copilot-reviewer";
+const TARGET = { projectId: 42, mrIid: 7, headSha: "bbbbbbbb2222" };
+const FINGERPRINT = "0123456789abcdef";
+
+function makeNote(overrides: Partial<MergeRequestDiscussionNote>): MergeRequestDiscussionNote {
+  return {
+    id: 1,
+    body: `🔴 **CRITICAL**: SQL injection\n\n${buildFingerprintMarker(FINGERPRINT)}`,
+    author: { username: BOT },
+    resolvable: true,
+    resolved: false,
+    position: {
+      position_type: "text",
+      head_sha: "aaaaaaaa1111",
+      old_path: "src/db.ts",
+      new_path: "src/db.ts",
+      old_line: null,
+      new_line: 2,
+    },
+    ...overrides,
+  };
+}
+
+function makeThread(overrides: Partial<OpenBotThread> = {}): OpenBotThread {
+  return {
+    discussionId: "d1",
+    fingerprint: FINGERPRINT,
+    anchor: { path: "src/db.ts", line: 2, sha: "aaaaaaaa1111" },
+    stillAppliesShas: [],
+    ...overrides,
+  };
+}
+
+function createFakeClient(originalContent = "import { db } from './db';\ndb.query(`... ${id}`);\n") {
+  return {
+    getRawFile: vi.fn(async () => originalContent as string | undefined),
+    createDraftReply: vi.fn(async () => ({ id: 1 })),
+  };
+}
+
+describe("findOpenBotThreads", () => {
+  it("keeps unresolved, fingerprinted threads started by the bot", () => {
+    const discussions: MergeRequestDiscussion[] = [
+      { id: "d1", notes: [makeNote({})] },
+      { id: "d2", notes: [makeNote({ resolved: true })] },
+      { id: "d3", notes: [makeNote({ author: { username: "johndoe" } })] },
+      { id: "d4", notes: [makeNote({ body: "🟡 **WARNING**: posted before fingerprints" })] },
+      { id: "d5", notes: [makeNote({ resolvable: false })] },
+    ];
+
+    expect(findOpenBotThreads(discussions, BOT)).toEqual([makeThread()]);
+  });
+
+  it("leaves file-level threads without an anchor and collects earlier still-applies replies", () => {
+    const discussions: MergeRequestDiscussion[] = [{
+      id: "d1",
+      notes: [
+        makeNote({ position: { position_type: "file", head_sha: "aaaaaaaa1111", new_path: "src/db.ts" } }),
+        makeNote({ id: 2, body: buildStillAppliesReply("cccccccc3333") }),
+      ],
+    }];
+
+    expect(findOpenBotThreads(discussions, BOT)).toEqual([
+      makeThread({ anchor: undefined, stillAppliesShas: ["cccccccc3333"] }),
+    ]);
+  });
+});
+
+describe("countOpenCriticalThreads", () => {
+  it("counts the bot's unresolved critical threads, fingerprinted or not", () => {
+    const discussions: MergeRequestDiscussion[] = [
+      { id: "d1", notes: [makeNote({})] },
+      { id: "d2", notes: [makeNote({ body: "**Line 9** – 🔴 **CRITICAL**: posted before fingerprints" })] },
+      { id: "d3", notes: [makeNote({ resolved: true })] },
+      { id: "d4", notes: [makeNote({ author: { username: "johndoe" } })] },
+      { id: "d5", notes: [makeNote({ body: "🟡 **WARNING**: Unbounded loop" })] },
+    ];
+
+    expect(countOpenCriticalThreads(discussions, BOT)).toBe(2);
+  });
+});
+
+describe("containsLine", () => {
+  it("ignores indentation changes", () => {
+    expect(containsLine("function f() {\n    db.query(sql);\n}", "  db.query(sql);")).toBe(true);
+    expect(containsLine("function f() {\n  db.query(sql, [id]);\n}", "  db.query(sql);")).toBe(false);
+  });
+});
+
+describe("followUpBotThreads", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("resolves threads whose anchored code is gone", async () => {
+    const gitlab = createFakeClient();
+
+    const result = await followUpBotThreads(
+      gitlab, TARGET, [makeThread()], new Set(),
+      async () => "import { db } from './db';\ndb.query('... ?', [id]);\n",
+    );
+
+    expect(result).toEqual({ resolved: 1, stillApplies: 0 });
+    expect(gitlab.getRawFile).toHaveBeenCalledWith(42, "src/db.ts", "aaaaaaaa1111");
+    expect(gitlab.createDraftReply).toHaveBeenCalledWith(
+      42, 7, "d1", buildAddressedReply("bbbbbbbb2222"), true,
+    );
+    expect(buildAddressedReply("bbbbbbbb2222")).toBe("✅ Addressed in bbbbbbbb");
+  });
+
+  it("resolves threads on deleted files", async () => {
+    const gitlab = createFakeClient();
+
+    const result = await followUpBotThreads(gitlab, TARGET, [makeThread()], new Set(), async () => undefined);
+
+    expect(result.resolved).toBe(1);
+  });
+
+  it("leaves threads open while their code is still there", async () => {
+    const gitlab = createFakeClient();
+
+    const result = await followUpBotThreads(
+      gitlab, TARGET, [makeThread()], new Set(),
+      async () => "// moved down\nimport { db } from './db';\n  db.query(`... ${id}`);\n",
+    );
+
+    expect(result).toEqual({ resolved: 0, stillApplies: 0 });
+    expect(gitlab.createDraftReply).not.toHaveBeenCalled();
+  });
+
+  it("notes that re-reported findings still apply, once per head", async () => {
+    const gitlab = createFakeClient();
+    const readCurrentFile = vi.fn(async () => undefined);
+
+    const result = await followUpBotThreads(
+      gitlab,
+      TARGET,
+      [makeThread(), makeThread({ discussionId: "d2", stillAppliesShas: ["bbbbbbbb2222"] })],
+      new Set([FINGERPRINT]),
+      readCurrentFile,
+    );
+
+    expect(result).toEqual({ resolved: 0, stillApplies: 1 });
+    expect(gitlab.createDraftReply).toHaveBeenCalledTimes(1);
+    expect(gitlab.createDraftReply).toHaveBeenCalledWith(
+      42, 7, "d1", buildStillAppliesReply("bbbbbbbb2222"), false,
+    );
+    expect(readCurrentFile).not.toHaveBeenCalled();
+  });
+
+  it("skips threads whose original code can't be read", async () => {
+    const gitlab = createFakeClient();
+    gitlab.getRawFile.mockRejectedValueOnce(new Error("GitLab API error: 500"));
+    gitlab.getRawFile.mockResolvedValueOnce(undefined);
+
+    const result = await followUpBotThreads(
+      gitlab, TARGET, [makeThread(), makeThread({ discussionId: "d2" })], new Set(), async () => "",
+    );
+
+    expect(result).toEqual({ resolved: 0, stillApplies: 0 });
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+});
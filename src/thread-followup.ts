@@ -0,0 +1,184 @@
+import { extractFingerprints } from "./fingerprint.js";
+import type { MergeRequestDiscussion } from "./types.js";
+
+// ─── Follow-up on earlier review threads ────────────────────────────────────
+
+/**
+ * Hidden marker on "still applies" replies, so a re-review of the same head
+ * doesn't repeat them.
+ */
+const STILL_APPLIES_MARKER_PATTERN = /<!-- copilot-review:still-applies=([0-9a-f]{7,40}) -->/;
+
+/** Severity label of critical review comments (see GitLabClient.postReview) */
+const CRITICAL_LABEL = "🔴 **CRITICAL**";
+
+export interface ThreadFollowUpClient {
+  getRawFile(projectId: number, filePath: string, ref: string): Promise<string | undefined>;
+  createDraftReply(
+    projectId: number,
+    mrIid: number,
+    discussionId: string,
+    note: string,
+    resolveDiscussion: boolean,
+  ): Promise<{ id: number }>;
+}
+
+export interface ThreadFollowUpTarget {
+  projectId: number;
+  mrIid: number;
+  /** Head SHA of the diff version just reviewed */
+  headSha: string;
+}
+
+/**
+ * An unresolved thread the bot opened in an earlier review.
+ */
+export interface OpenBotThread {
+  discussionId: string;
+  fingerprint: string;
+  /** New-side line the thread is anchored to, in the version it was posted on */
+  anchor?: { path: string; line: number; sha: string };
+  /** Head SHAs the bot already replied "still applies" for */
+  stillAppliesShas: string[];
+}
+
+/**
+ * Unresolved threads started by the bot with a fingerprinted comment.
+ */
+export function findOpenBotThreads(
+  discussions: MergeRequestDiscussion[],
+  botUsername: string,
+): OpenBotThread[] {
+  const threads: OpenBotThread[] = [];
+  for (const discussion of discussions) {
+    const first = discussion.notes[0];
+    if (!first || first.author?.username !== botUsername) continue;
+    if (!first.resolvable || first.resolved) continue;
+
+    const fingerprint = extractFingerprints(first.body)[0];
+    if (!fingerprint) continue;
+
+    const position = first.position;
+    const anchor =
+      position?.position_type !== "file" &&
+      position?.new_path &&
+      position.new_line != null &&
+      position.head_sha
+        ? { path: position.new_path, line: position.new_line, sha: position.head_sha }
+        : undefined;
+
+    const stillAppliesShas = discussion.notes
+      .filter((note) => note.author?.username === botUsername)
+      .map((note) => note.body.match(STILL_APPLIES_MARKER_PATTERN)?.[1])
+      .filter((sha): sha is string => sha !== undefined);
+
+    threads.push({ discussionId: discussion.id, fingerprint, anchor, stillAppliesShas });
+  }
+  return threads;
+}
+
+/**
+ * Unresolved threads the bot opened for critical findings, in this review
+ * or an earlier one. An incremental review only sees the new commits, so
+ * the verdict and status count these rather than just its own comments.
+ */
+export function countOpenCriticalThreads(
+  discussions: MergeRequestDiscussion[],
+  botUsername: string,
+): number {
+  return discussions.filter((discussion) => {
+    const first = discussion.notes[0];
+    return (
+      first?.author?.username === botUsername &&
+      first.resolvable === true &&
+      !first.resolved &&
+      first.body.includes(CRITICAL_LABEL)
+    );
+  }).length;
+}
+
+export function buildAddressedReply(headSha: string): string {
+  return `✅ Addressed in ${headSha.slice(0, 8)}`;
+}
+
+export function buildStillAppliesReply(headSha: string): string {
+  return (
+    `🔁 Still applies as of ${headSha.slice(0, 8)}.\n\n` +
+    `<!-- copilot-review:still-applies=${headSha} -->`
+  );
+}
+
+function normalizeLine(line: string): string {
+  return line.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Whether a line of code still appears anywhere in a file, ignoring
+ * whitespace (the fix may have moved or re-indented the surrounding code).
+ */
+export function containsLine(content: string, line: string): boolean {
+  const wanted = normalizeLine(line);
+  return content.split("\n").some((candidate) => normalizeLine(candidate) === wanted);
+}
+
+/**
+ * Follow up on the bot's open threads from earlier reviews, as draft
+ * replies published with the rest of the review:
+ *
+ * - re-reported in this review (same fingerprint) → "still applies" note
+ *   instead of a duplicate comment
+ * - anchored code no longer in the file → "Addressed in <sha>", resolved
+ * - otherwise left alone: the code is still there but this review didn't
+ *   flag it (e.g. an incremental review that never looked at it)
+ *
+ * `readCurrentFile` returns a file as of the reviewed head (undefined when
+ * it no longer exists). Per-thread failures are logged and skipped.
+ */
+export async function followUpBotThreads(
+  gitlab: ThreadFollowUpClient,
+  target: ThreadFollowUpTarget,
+  threads: OpenBotThread[],
+  reportedFingerprints: ReadonlySet<string>,
+  readCurrentFile: (path: string) => Promise<string | undefined>,
+): Promise<{ resolved: number; stillApplies: number }> {
+  const { projectId, mrIid, headSha } = target;
+  let resolved = 0;
+  let stillApplies = 0;
+
+  for (const thread of threads) {
+    try {
+      if (reportedFingerprints.has(thread.fingerprint)) {
+        if (thread.stillAppliesShas.includes(headSha)) continue;
+        await gitlab.createDraftReply(
+          projectId, mrIid, thread.discussionId, buildStillAppliesReply(headSha), false,
+        );
+        stillApplies++;
+        continue;
+      }
+
+      const { anchor } = thread;
+      if (!anchor || anchor.sha === headSha) continue;
+
+      const original = await gitlab.getRawFile(projectId, anchor.path, anchor.sha);
+      const anchoredLine = original?.split("\n")[anchor.line - 1];
+      // Blank lines can't tell whether the code is gone
+      if (anchoredLine === undefined || normalizeLine(anchoredLine) === "") continue;
+
+      const current = await readCurrentFile(anchor.path);
+      if (current !== undefined && containsLine(current, anchoredLine)) continue;
+
+      await gitlab.createDraftReply(
+        projectId, mrIid, thread.discussionId, buildAddressedReply(headSha), true,
+      );
+      console.log(
+        `[gitlab] Resolving thread ${thread.discussionId}: ` +
+        `${anchor.path}:${anchor.line} is gone in ${headSha.slice(0, 8)}`,
+      );
+      resolved++;
+    } catch (err) {
+      console.warn(`[gitlab] Could not follow up on thread ${thread.discussionId}:`, err);
+    }
+  }
+
+  return { resolved, stillApplies };
+}
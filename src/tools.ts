@@ -21,7 +21,7 @@ const SUBMIT_REVIEW_PARAMETERS = {
       description: "Review comments. Empty array if no issues found.",
       items: {
         type: "object",
-        required: ["file", "line", "body", "severity"],
+        required: ["file", "body", "severity", "category"],
         additionalProperties: false,
         properties: {
           file: {
@@ -31,7 +31,13 @@ const SUBMIT_REVIEW_PARAMETERS = {
           line: {
             type: "integer",
             description:
-              "The line number where the comment attaches (the discussion thread anchor).",
+              "The line number where the comment attaches (the discussion thread anchor). Omit for remarks about the whole file.",
+          },
+          side: {
+            type: "string",
+            enum: ["old", "new"],
+            description:
+              'Which version "line" refers to: "new" (default) for added or unchanged lines, "old" for removed lines.',
           },
           body: {
             type: "string",
@@ -43,6 +49,11 @@ const SUBMIT_REVIEW_PARAMETERS = {
             enum: ["info", "warning", "critical"],
             description: "Severity of the issue.",
           },
+          category: {
+            type: "string",
+            description:
+              'Short kebab-case rule or category of the issue, e.g. "sql-injection", "null-check", "n-plus-one". Use the same category for the same kind of issue.',
+          },
           suggestion: {
             type: "string",
             description:
@@ -51,12 +62,12 @@ const SUBMIT_REVIEW_PARAMETERS = {
           startLine: {
             type: "integer",
             description:
-              "Start of the range to replace (if suggestion spans multiple lines).",
+              "First line of a multi-line finding: the range is highlighted in the diff and replaced by the suggestion.",
           },
           endLine: {
             type: "integer",
             description:
-              "End of the range to replace (if suggestion spans multiple lines).",
+              "Last line of a multi-line finding: the range is highlighted in the diff and replaced by the suggestion.",
           },
         },
       },
@@ -153,16 +164,20 @@ export function normalizeReviewResult(raw: ReviewResult): ReviewResult {
     .filter(
       (c): c is ReviewComment =>
         typeof c.file === "string" &&
-        typeof c.line === "number" &&
+        (typeof c.line === "number" || c.line == null) &&
         typeof c.body === "string",
     )
     .map((c) => ({
       file: c.file,
-      line: c.line,
+      line: c.line ?? undefined,
+      side: c.side === "old" ? "old" : undefined,
       body: c.body,
       severity: ["info", "warning", "critical"].includes(c.severity)
         ? c.severity
         : "info",
+      category: typeof c.category === "string" && c.category.trim() !== ""
+        ? c.category.trim()
+        : undefined,
       suggestion: typeof c.suggestion === "string" ? c.suggestion : undefined,
       startLine: typeof c.startLine === "number" ? c.startLine : undefined,
       endLine: typeof c.endLine === "number" ? c.endLine : undefined,
@@ -12,6 +12,16 @@ export interface GitLabUser {
   re_requested?: boolean;
 }
 
+export interface GitLabLabel {
+  id: number;
+  title: string;
+  color?: string;
+  description?: string | null;
+  type?: string;
+  group_id?: number | null;
+  project_id?: number | null;
+}
+
 export interface GitLabProject {
   id: number;
   name: string;
@@ -85,6 +95,10 @@ export interface MergeRequestChanges {
     previous: boolean;
     current: boolean;
   };
+  labels?: {
+    previous: GitLabLabel[];
+    current: GitLabLabel[];
+  };
   [key: string]: unknown;
 }
 
@@ -95,6 +109,7 @@ export interface MergeRequestWebhookPayload {
   project: GitLabProject;
   object_attributes: MergeRequestAttributes;
   reviewers: GitLabUser[];
+  labels?: GitLabLabel[];
   changes: MergeRequestChanges;
 }
 
@@ -119,7 +134,9 @@ export interface NoteAttributes {
   };
   discussion_id: string;
   type: string | null;
-  noteable_id: number;
+  noteable_id: number | null;
+  /** Commit SHA for notes on commits */
+  commit_id?: string | null;
   url: string;
 }
 
@@ -130,12 +147,24 @@ export interface NoteWebhookMergeRequest {
   description: string;
   source_branch: string;
   target_branch: string;
+  source_project_id?: number;
+  target_project_id?: number;
   state: string;
   source: GitLabProject;
   target: GitLabProject;
   url: string;
 }
 
+export interface NoteWebhookIssue {
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  state: string;
+  url: string;
+  labels?: GitLabLabel[];
+}
+
 export interface NoteWebhookPayload {
   object_kind: "note";
   event_type: "note";
@@ -143,9 +172,128 @@ export interface NoteWebhookPayload {
   project: GitLabProject;
   object_attributes: NoteAttributes;
   merge_request?: NoteWebhookMergeRequest;
+  issue?: NoteWebhookIssue;
+  commit?: GitLabCommit;
+}
+
+// ─── Pipeline & Job Webhook Types ───────────────────────────────────────────
+
+export interface PipelineAttributes {
+  id: number;
+  iid?: number;
+  name?: string | null;
+  ref: string;
+  tag: boolean;
+  sha: string;
+  before_sha: string;
+  source: string;
+  status: string;
+  detailed_status?: string;
+  stages: string[];
+  created_at: string;
+  finished_at: string | null;
+  duration: number | null;
+  url?: string;
+}
+
+export interface PipelineWebhookMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  source_branch: string;
+  source_project_id: number;
+  target_branch: string;
+  target_project_id: number;
+  state: string;
+  merge_status: string;
+  detailed_merge_status?: string;
+  url: string;
 }
 
-export type WebhookPayload = MergeRequestWebhookPayload | NoteWebhookPayload;
+export interface PipelineWebhookBuild {
+  id: number;
+  stage: string;
+  name: string;
+  status: string;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  duration: number | null;
+  failure_reason?: string | null;
+  when: string;
+  manual: boolean;
+  allow_failure: boolean;
+}
+
+export interface PipelineWebhookPayload {
+  object_kind: "pipeline";
+  user: GitLabUser;
+  project: GitLabProject;
+  object_attributes: PipelineAttributes;
+  /** Set for merge request pipelines, null for branch/tag pipelines */
+  merge_request: PipelineWebhookMergeRequest | null;
+  commit?: GitLabCommit;
+  builds: PipelineWebhookBuild[];
+}
+
+/**
+ * Job event payload. GitLab still names these "build" events.
+ */
+export interface JobWebhookPayload {
+  object_kind: "build";
+  ref: string;
+  tag: boolean;
+  before_sha: string;
+  sha: string;
+  build_id: number;
+  build_name: string;
+  build_stage: string;
+  build_status: string;
+  build_created_at: string;
+  build_started_at: string | null;
+  build_finished_at: string | null;
+  build_duration: number | null;
+  build_allow_failure: boolean;
+  build_failure_reason: string;
+  pipeline_id: number;
+  project_id: number;
+  project_name: string;
+  user: GitLabUser;
+  commit: {
+    id: number;
+    sha: string;
+    message: string;
+    author_name: string;
+    author_email: string;
+    status: string;
+  };
+  project: GitLabProject;
+}
+
+export type WebhookPayload =
+  | MergeRequestWebhookPayload
+  | NoteWebhookPayload
+  | PipelineWebhookPayload
+  | JobWebhookPayload;
+
+// ─── Bot Command Types ──────────────────────────────────────────────────────
+
+export type BotCommandName =
+  | "review"
+  | "explain"
+  | "summarize"
+  | "describe"
+  | "forget"
+  | "help";
+
+export interface BotCommand {
+  /** Resolved command, or "unknown" when the slash command is not recognized */
+  name: BotCommandName | "unknown";
+  /** The command word as written (lowercased, without the leading slash) */
+  raw: string;
+  /** Remaining text on the command line after the command word */
+  args: string;
+}
 
 // ─── GitLab API Response Types ──────────────────────────────────────────────
 
@@ -180,6 +328,81 @@ export interface MergeRequestDiffVersionDetail extends MergeRequestDiffVersion {
   commits: GitLabCommit[];
 }
 
+export interface RepositoryCompare {
+  commits: GitLabCommit[];
+  diffs: DiffFile[];
+  compare_same_ref: boolean;
+}
+
+export interface MergeRequestDiscussionNote {
+  id: number;
+  body: string;
+  author?: { username?: string };
+  system?: boolean;
+  resolvable?: boolean;
+  resolved?: boolean;
+  /** Set on diff notes; head_sha is the version the note was placed on */
+  position?: {
+    position_type?: "text" | "file";
+    head_sha?: string;
+    old_path?: string;
+    new_path?: string;
+    old_line?: number | null;
+    new_line?: number | null;
+  };
+}
+
+export interface MergeRequestDiscussion {
+  id: string;
+  notes: MergeRequestDiscussionNote[];
+}
+
+export interface DraftNote {
+  id: number;
+  note: string;
+  discussion_id?: string | null;
+}
+
+export interface PipelineJob {
+  id: number;
+  name: string;
+  stage: string;
+  status: string;
+  allow_failure: boolean;
+  failure_reason?: string;
+  web_url: string;
+}
+
+/**
+ * Something award emoji (reactions) can be put on.
+ */
+export type AwardableTarget =
+  | { kind: "merge_request"; projectId: number; mrIid: number }
+  | { kind: "merge_request_note"; projectId: number; mrIid: number; noteId: number }
+  | { kind: "issue_note"; projectId: number; issueIid: number; noteId: number };
+
+export interface AwardEmoji {
+  id: number;
+  /** Emoji name without colons, e.g. "hourglass_flowing_sand" */
+  name: string;
+  user: GitLabUser;
+  created_at: string;
+}
+
+export interface CommitStatus {
+  state: "pending" | "running" | "success" | "failed" | "canceled";
+  /** Status label shown in the pipeline widget, e.g. "copilot-review" */
+  name: string;
+  ref?: string;
+  target_url?: string;
+  description?: string;
+}
+
+export interface MergeRequestApprovals {
+  approved: boolean;
+  approved_by: Array<{ user: GitLabUser }>;
+}
+
 // ─── Review Context Types ──────────────────────────────────────────────────
 
 export interface MergeRequestCommentContext {
@@ -191,15 +414,51 @@ export interface MergeRequestCommentContext {
   lineNumber?: number;
 }
 
+/**
+ * Changes pushed since the bot last reviewed the MR.
+ */
+export interface IncrementalDiff {
+  /** Head SHA of the previously reviewed diff version */
+  fromSha: string;
+  /** Head SHA of the diff version being reviewed now */
+  toSha: string;
+  /** File diffs between the two heads */
+  diffs: DiffFile[];
+}
+
+/**
+ * Cleaned log tail of a failed CI job, used for pipeline diagnosis.
+ */
+export interface FailedJobLog {
+  name: string;
+  stage: string;
+  failureReason?: string;
+  webUrl: string;
+  log: string;
+}
+
+/**
+ * What a comment-reply discussion is attached to.
+ */
+export interface CommentReplySubject {
+  kind: "merge_request" | "issue" | "commit";
+  title: string;
+  url: string;
+  /** Issue/MR description or full commit message, included as context when set */
+  description?: string;
+}
+
 // ─── Review Types ───────────────────────────────────────────────────────────
 
 export interface ReviewComment {
   file: string;
-  line: number; // The line being commented on (where the discussion thread attaches)
+  line?: number; // The line being commented on (where the discussion thread attaches); omitted for whole-file remarks
+  side?: "old" | "new"; // Diff side of `line`: "old" for removed lines (default: "new")
   startLine?: number; // Start of the range to replace (if multi-line suggestion)
   endLine?: number; // End of the range to replace (if multi-line suggestion)
   body: string;
   severity: "info" | "warning" | "critical";
+  category?: string; // Short rule/category slug, e.g. "sql-injection" (part of the dedup fingerprint)
   suggestion?: string; // Optional code suggestion for GitLab suggestions feature
 }
 
@@ -211,7 +470,8 @@ export interface ReviewResult {
 // ─── Discussion Position (for posting inline comments) ──────────────────────
 
 export interface DiffPosition {
-  position_type: "text";
+  /** "file" attaches to the whole file (no line fields) */
+  position_type: "text" | "file";
   base_sha: string;
   head_sha: string;
   start_sha: string;
@@ -219,4 +479,20 @@ export interface DiffPosition {
   new_path: string;
   new_line?: number;
   old_line?: number;
+  /** Highlighted lines of a multi-line comment; new_line/old_line is the anchor */
+  line_range?: LineRange;
+}
+
+export interface LineRangeEndpoint {
+  /** `<sha1 of file path>_<old line>_<new line>` */
+  line_code: string;
+  /** "new" for added lines, "old" otherwise */
+  type: "new" | "old";
+  old_line: number | null;
+  new_line: number | null;
+}
+
+export interface LineRange {
+  start: LineRangeEndpoint;
+  end: LineRangeEndpoint;
 }
@@ -0,0 +1,372 @@
+import { readFileSync } from "node:fs";
+import { createServer, request } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  classifyWebhookEvent,
+  findAddedTriggerLabel,
+  isWebhookPayload,
+  readWebhookBody,
+  reviewProfileFromLabel,
+  shouldDiagnosePipeline,
+  verifyWebhookToken,
+  WebhookBodyTooLargeError,
+} from "./webhook.js";
+import type {
+  GitLabLabel,
+  MergeRequestWebhookPayload,
+  NoteWebhookPayload,
+  PipelineWebhookPayload,
+} from "./types.js";
+
+const BOT = "copilot-reviewer";
+
+function loadFixture<T = MergeRequestWebhookPayload>(name: string): T {
+  return JSON.parse(
+    readFileSync(join(__dirname, "..", "test", "fixtures", name), "utf-8"),
+  ) as T;
+}
+
+function makeLabel(id: number, title: string): GitLabLabel {
+  return { id, title };
+}
+
+/** Fixture MR update where only the labels changed and the bot is not a reviewer. */
+function makeLabelPayload(previous: string[], current: string[]): MergeRequestWebhookPayload {
+  const payload = loadFixture("webhook-reviewer-added.json");
+  payload.reviewers = payload.reviewers.filter((r) => r.username !== BOT);
+  payload.changes = {
+    labels: {
+      previous: previous.map((title, i) => makeLabel(i + 1, title)),
+      current: current.map((title, i) => makeLabel(i + 100, title)),
+    },
+  };
+  return payload;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("verifyWebhookToken", () => {
+  it("accepts a matching token", () => {
+    expect(verifyWebhookToken("s3cret", "s3cret")).toBe(true);
+  });
+
+  it("rejects a mismatched token of the same length", () => {
+    expect(verifyWebhookToken("s3creT", "s3cret")).toBe(false);
+  });
+
+  it("rejects a token of a different length", () => {
+    expect(verifyWebhookToken("s3cret-longer", "s3cret")).toBe(false);
+  });
+
+  it("rejects a missing or repeated header", () => {
+    expect(verifyWebhookToken(undefined, "s3cret")).toBe(false);
+    expect(verifyWebhookToken(["s3cret", "s3cret"], "s3cret")).toBe(false);
+  });
+
+  it("rejects everything when no secret is configured", () => {
+    expect(verifyWebhookToken("", "")).toBe(false);
+  });
+});
+
+/**
+ * Serve one request, let `send` make it, and return what reading its body gave.
+ */
+async function readBodyOfRequest(
+  send: (port: number) => void,
+  maxBytes?: number,
+): Promise<{ body?: string; error?: unknown }> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    const result = new Promise<{ body?: string; error?: unknown }>((resolve) => {
+      server.once("request", (req, res) => {
+        readWebhookBody(req, maxBytes).then(
+          (body) => { resolve({ body }); res.end(); },
+          (error: unknown) => { resolve({ error }); res.destroy(); },
+        );
+      });
+    });
+    send((server.address() as AddressInfo).port);
+    return await result;
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+function post(port: number, headers: Record<string, string | number> = {}) {
+  const req = request({ port, host: "127.0.0.1", method: "POST", path: "/webhook", headers });
+  req.on("error", () => {});
+  return req;
+}
+
+describe("readWebhookBody", () => {
+  it("reads the whole body", async () => {
+    const result = await readBodyOfRequest((port) => post(port).end('{"object_kind":"note"}'));
+
+    expect(result).toEqual({ body: '{"object_kind":"note"}' });
+  });
+
+  it("rejects a body over the limit while streaming it", async () => {
+    const result = await readBodyOfRequest((port) => {
+      const req = post(port);
+      req.write("x".repeat(10));
+      req.end("x".repeat(10));
+    }, 16);
+
+    expect(result.error).toBeInstanceOf(WebhookBodyTooLargeError);
+  });
+
+  it("rejects an oversized Content-Length without reading the body", async () => {
+    const result = await readBodyOfRequest((port) => post(port, { "Content-Length": 17 }).end("x".repeat(17)), 16);
+
+    expect(result.error).toBeInstanceOf(WebhookBodyTooLargeError);
+  });
+
+  it("rejects when the client aborts mid-body", async () => {
+    const result = await readBodyOfRequest((port) => {
+      const req = post(port, { "Content-Length": 100 });
+      req.write('{"object_kind":', () => setTimeout(() => req.destroy(), 20));
+    });
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect(result.error).not.toBeInstanceOf(WebhookBodyTooLargeError);
+  });
+});
+
+describe("isWebhookPayload", () => {
+  it("accepts objects with an object_kind", () => {
+    expect(isWebhookPayload(loadFixture("webhook-reviewer-added.json"))).toBe(true);
+  });
+
+  it("rejects other JSON values", () => {
+    for (const value of [null, 42, "note", [], {}, { object_kind: 1 }]) {
+      expect(isWebhookPayload(value)).toBe(false);
+    }
+  });
+});
+
+describe("findAddedTriggerLabel", () => {
+  it("matches an added trigger label", () => {
+    const payload = makeLabelPayload(["bug"], ["bug", "ai-review"]);
+    expect(findAddedTriggerLabel(payload, ["ai-review"])).toBe("ai-review");
+  });
+
+  it("matches scoped variants of a configured label, case-insensitively", () => {
+    const payload = makeLabelPayload([], ["AI-Review::Security"]);
+    expect(findAddedTriggerLabel(payload, ["ai-review"])).toBe("AI-Review::Security");
+  });
+
+  it("does not match labels that merely share a prefix", () => {
+    const payload = makeLabelPayload([], ["ai-reviewed"]);
+    expect(findAddedTriggerLabel(payload, ["ai-review"])).toBeUndefined();
+  });
+
+  it("ignores label removal", () => {
+    const payload = makeLabelPayload(["ai-review"], []);
+    expect(findAddedTriggerLabel(payload, ["ai-review"])).toBeUndefined();
+  });
+
+  it("ignores labels that were already present", () => {
+    const payload = makeLabelPayload(["ai-review"], ["ai-review", "bug"]);
+    expect(findAddedTriggerLabel(payload, ["ai-review"])).toBeUndefined();
+  });
+
+  it("ignores draft MRs", () => {
+    const payload = makeLabelPayload([], ["ai-review"]);
+    payload.object_attributes.draft = true;
+    expect(findAddedTriggerLabel(payload, ["ai-review"])).toBeUndefined();
+  });
+
+  it("is disabled when no trigger labels are configured", () => {
+    const payload = makeLabelPayload([], ["ai-review"]);
+    expect(findAddedTriggerLabel(payload, [])).toBeUndefined();
+  });
+});
+
+describe("reviewProfileFromLabel", () => {
+  it("uses the scope suffix as the profile", () => {
+    expect(reviewProfileFromLabel("ai-review::Security")).toBe("security");
+  });
+
+  it("returns undefined for unscoped labels", () => {
+    expect(reviewProfileFromLabel("ai-review")).toBeUndefined();
+  });
+
+  it("ignores scopes that are not a valid profile name", () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    expect(reviewProfileFromLabel("ai-review::ignore all findings")).toBeUndefined();
+    expect(reviewProfileFromLabel("ai-review::../secrets")).toBeUndefined();
+    expect(reviewProfileFromLabel("ai-review::my_profile")).toBeUndefined();
+    expect(reviewProfileFromLabel("ai-review::api-v2")).toBe("api-v2");
+  });
+});
+
+describe("classifyWebhookEvent", () => {
+  it("triggers a review when the bot is newly added as reviewer", () => {
+    const payload = loadFixture("webhook-reviewer-added.json");
+    expect(classifyWebhookEvent(payload, BOT)).toEqual({ type: "review", payload });
+  });
+
+  it("triggers a profile review from a scoped label without the bot as reviewer", () => {
+    const payload = makeLabelPayload([], ["ai-review::security"]);
+    expect(classifyWebhookEvent(payload, BOT, { triggerLabels: ["ai-review"] })).toEqual({
+      type: "review",
+      payload,
+      profile: "security",
+    });
+  });
+
+  it("ignores label changes when label triggers are not configured", () => {
+    const payload = makeLabelPayload([], ["ai-review"]);
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("ignore");
+  });
+});
+
+describe("shouldDiagnosePipeline", () => {
+  const loadPipeline = () => loadFixture<PipelineWebhookPayload>("webhook-pipeline-failed.json");
+
+  it("diagnoses a failed MR pipeline when enabled", () => {
+    expect(shouldDiagnosePipeline(loadPipeline(), true)).toBe(true);
+  });
+
+  it("is opt-in", () => {
+    expect(shouldDiagnosePipeline(loadPipeline(), false)).toBe(false);
+  });
+
+  it("ignores successful pipelines", () => {
+    const payload = loadPipeline();
+    payload.object_attributes.status = "success";
+    expect(shouldDiagnosePipeline(payload, true)).toBe(false);
+  });
+
+  it("ignores branch pipelines without a merge request", () => {
+    const payload = loadPipeline();
+    payload.merge_request = null;
+    expect(shouldDiagnosePipeline(payload, true)).toBe(false);
+  });
+
+  it("ignores pipelines where only allow_failure jobs failed", () => {
+    const payload = loadPipeline();
+    payload.builds = payload.builds.filter((build) => build.allow_failure || build.status !== "failed");
+    expect(shouldDiagnosePipeline(payload, true)).toBe(false);
+  });
+
+  it("classifies as pipeline_failure", () => {
+    const payload = loadPipeline();
+    expect(classifyWebhookEvent(payload, BOT, { pipelineDiagnosis: true })).toEqual({
+      type: "pipeline_failure",
+      payload,
+    });
+  });
+});
+
+describe("classifyWebhookEvent (merge request notes)", () => {
+  /** The issue note fixture, moved onto the MR of the reviewer-added fixture. */
+  function makeMergeRequestNote(note: string): NoteWebhookPayload {
+    const payload = loadFixture<NoteWebhookPayload>("webhook-issue-note.json");
+    delete payload.issue;
+    payload.merge_request = loadFixture("webhook-reviewer-added.json").object_attributes;
+    payload.object_attributes.noteable_type = "MergeRequest";
+    payload.object_attributes.note = note;
+    return payload;
+  }
+
+  it("classifies a slash command as a command", () => {
+    const payload = makeMergeRequestNote("@copilot-reviewer /review");
+    expect(classifyWebhookEvent(payload, BOT)).toEqual({
+      type: "command",
+      command: { name: "review", raw: "review", args: "" },
+      payload,
+    });
+  });
+
+  it("classifies an unknown command as unknown, not as a known command", () => {
+    const payload = makeMergeRequestNote("@copilot-reviewer /foo bar");
+    expect(classifyWebhookEvent(payload, BOT)).toEqual({
+      type: "command",
+      command: { name: "unknown", raw: "foo", args: "bar" },
+      payload,
+    });
+  });
+
+  it("replies to a mention without a command", () => {
+    const payload = makeMergeRequestNote("@copilot-reviewer why is this retried twice?");
+    expect(classifyWebhookEvent(payload, BOT)).toEqual({ type: "comment_reply", payload });
+  });
+});
+
+describe("classifyWebhookEvent (issue notes)", () => {
+  const loadIssueNote = () => loadFixture<NoteWebhookPayload>("webhook-issue-note.json");
+
+  it("replies to a bot mention on an issue", () => {
+    const payload = loadIssueNote();
+    expect(classifyWebhookEvent(payload, BOT)).toEqual({ type: "issue_reply", payload });
+  });
+
+  it("treats slash commands on issues as free-form questions", () => {
+    const payload = loadIssueNote();
+    payload.object_attributes.note = "@copilot-reviewer /review";
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("issue_reply");
+  });
+
+  it("ignores issue notes without a mention", () => {
+    const payload = loadIssueNote();
+    payload.object_attributes.note = "where is the session timeout implemented?";
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("ignore");
+  });
+
+  it("ignores issue notes missing issue context", () => {
+    const payload = loadIssueNote();
+    delete payload.issue;
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("ignore");
+  });
+
+  it("ignores notes written by the bot", () => {
+    const payload = loadIssueNote();
+    payload.user.username = BOT;
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("ignore");
+  });
+
+  it("ignores notes on snippets", () => {
+    const payload = loadIssueNote();
+    payload.object_attributes.noteable_type = "Snippet";
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("ignore");
+  });
+});
+
+describe("classifyWebhookEvent (commit notes)", () => {
+  const loadCommitNote = () => loadFixture<NoteWebhookPayload>("webhook-commit-note.json");
+
+  it("replies to a bot mention on a commit", () => {
+    const payload = loadCommitNote();
+    expect(classifyWebhookEvent(payload, BOT)).toEqual({ type: "commit_reply", payload });
+  });
+
+  it("treats slash commands on commits as free-form questions", () => {
+    const payload = loadCommitNote();
+    payload.object_attributes.note = "@copilot-reviewer /summarize";
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("commit_reply");
+  });
+
+  it("ignores commit notes missing commit context", () => {
+    const payload = loadCommitNote();
+    delete payload.commit;
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("ignore");
+  });
+
+  it("ignores commit notes written by the bot", () => {
+    const payload = loadCommitNote();
+    payload.user.username = BOT;
+    expect(classifyWebhookEvent(payload, BOT).type).toBe("ignore");
+  });
+});
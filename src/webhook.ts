@@ -1,21 +1,124 @@
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { parseBotCommand } from "./commands.js";
+import { isReviewProfileName } from "./prompts/review-profile.js";
 import type {
+  BotCommand,
   MergeRequestWebhookPayload,
   NoteWebhookPayload,
+  PipelineWebhookPayload,
   WebhookPayload,
   GitLabUser,
 } from "./types.js";
 
+/**
+ * Verify the `X-Gitlab-Token` header against the configured webhook secret.
+ * Uses a constant-time comparison to avoid leaking the secret via timing.
+ */
+export function verifyWebhookToken(
+  headerToken: string | string[] | undefined,
+  secret: string,
+): boolean {
+  if (typeof headerToken !== "string" || !secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret, "utf-8");
+  const actual = Buffer.from(headerToken, "utf-8");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Largest webhook body accepted; GitLab's own payloads are far smaller */
+export const MAX_WEBHOOK_BODY_BYTES = 5 * 1024 * 1024;
+
+export class WebhookBodyTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Webhook body exceeds ${maxBytes} bytes`);
+    this.name = "WebhookBodyTooLargeError";
+  }
+}
+
+/**
+ * Read a webhook request body. Rejects with WebhookBodyTooLargeError past
+ * `maxBytes` (leaving the socket open, so a 413 can still be sent) and with
+ * a plain error when the client aborts the request.
+ */
+export function readWebhookBody(
+  req: IncomingMessage,
+  maxBytes = MAX_WEBHOOK_BODY_BYTES,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      reject(new WebhookBodyTooLargeError(maxBytes));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off("data", onData);
+        req.pause();
+        reject(new WebhookBodyTooLargeError(maxBytes));
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+    // Settling twice is a no-op, so this only fires for incomplete bodies
+    req.on("close", () => reject(new Error("Request closed before the body was complete")));
+  });
+}
+
+/**
+ * Whether a parsed JSON body looks like a webhook payload at all. Anything
+ * else (e.g. `null`) would fail on `object_kind` further down.
+ */
+export function isWebhookPayload(value: unknown): value is WebhookPayload {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { object_kind?: unknown }).object_kind === "string"
+  );
+}
+
+/**
+ * Classified webhook event, as routed by the handlers.
+ */
+export type WebhookEvent =
+  | { type: "review"; payload: MergeRequestWebhookPayload; profile?: string }
+  | { type: "comment_reply"; payload: NoteWebhookPayload }
+  | { type: "issue_reply"; payload: NoteWebhookPayload }
+  | { type: "commit_reply"; payload: NoteWebhookPayload }
+  | { type: "command"; command: BotCommand; payload: NoteWebhookPayload }
+  | { type: "pipeline_failure"; payload: PipelineWebhookPayload }
+  | { type: "ignore"; reason: string };
+
+export interface ClassifyOptions {
+  /** Labels that start a review when added to an MR (see findAddedTriggerLabel) */
+  triggerLabels?: string[];
+  /** Diagnose failed MR pipelines (opt-in) */
+  pipelineDiagnosis?: boolean;
+}
+
 /**
  * Determine the type of webhook event and whether it should trigger any action.
  */
 export function classifyWebhookEvent(
   payload: WebhookPayload,
   botUsername: string,
-): { type: "review"; payload: MergeRequestWebhookPayload }
-  | { type: "comment_reply"; payload: NoteWebhookPayload }
-  | { type: "ignore"; reason: string } {
+  options: ClassifyOptions = {},
+): WebhookEvent {
   
   if (payload.object_kind === "merge_request") {
+    const triggerLabel = findAddedTriggerLabel(payload, options.triggerLabels ?? []);
+    if (triggerLabel) {
+      return { type: "review", payload, profile: reviewProfileFromLabel(triggerLabel) };
+    }
     if (shouldTriggerReview(payload, botUsername)) {
       return { type: "review", payload };
     }
@@ -24,11 +127,38 @@ export function classifyWebhookEvent(
   
   if (payload.object_kind === "note") {
     if (shouldRespondToComment(payload, botUsername)) {
+      // Slash commands operate on merge requests; issue and commit mentions are always free-form
+      if (payload.object_attributes.noteable_type === "Issue") {
+        return { type: "issue_reply", payload };
+      }
+      if (payload.object_attributes.noteable_type === "Commit") {
+        return { type: "commit_reply", payload };
+      }
+      const command = parseBotCommand(payload.object_attributes.note, botUsername);
+      if (command) {
+        console.log(`[webhook] Slash command detected: /${command.raw}`);
+        return { type: "command", command, payload };
+      }
       return { type: "comment_reply", payload };
     }
     return { type: "ignore", reason: "Note event did not match reply conditions" };
   }
   
+  if (payload.object_kind === "pipeline") {
+    if (shouldDiagnosePipeline(payload, options.pipelineDiagnosis ?? false)) {
+      return { type: "pipeline_failure", payload };
+    }
+    return { type: "ignore", reason: "Pipeline event did not match diagnosis conditions" };
+  }
+
+  if (payload.object_kind === "build") {
+    // Failed jobs are diagnosed together once their pipeline fails
+    return {
+      type: "ignore",
+      reason: `Job events are handled via pipeline events (job ${payload.build_id}: ${payload.build_status})`,
+    };
+  }
+
   return { type: "ignore", reason: `Unhandled event type: ${(payload as any).object_kind}` };
 }
 
@@ -173,6 +303,77 @@ export function shouldTriggerReview(
   return false;
 }
 
+// ─── Label Triggers ─────────────────────────────────────────────────────────
+
+/**
+ * Find a configured trigger label that was ADDED in this MR update.
+ *
+ * A configured label matches the exact label title and its scoped variants,
+ * so `ai-review` matches both `ai-review` and `ai-review::security`.
+ * Comparison is case-insensitive. Removing a label never triggers a review,
+ * and draft MRs are ignored like for every other trigger.
+ */
+export function findAddedTriggerLabel(
+  payload: MergeRequestWebhookPayload,
+  triggerLabels: string[],
+): string | undefined {
+  const labelChanges = payload.changes?.labels;
+  if (triggerLabels.length === 0 || !labelChanges) {
+    return undefined;
+  }
+
+  if (payload.object_attributes.action !== "update") {
+    return undefined;
+  }
+
+  const previous = new Set(
+    (labelChanges.previous ?? []).map((label) => label.title.toLowerCase()),
+  );
+  const added = (labelChanges.current ?? [])
+    .map((label) => label.title)
+    .filter((title) => !previous.has(title.toLowerCase()));
+
+  const matched = added.find((title) =>
+    triggerLabels.some((trigger) => {
+      const candidate = title.toLowerCase();
+      const configured = trigger.toLowerCase();
+      return candidate === configured || candidate.startsWith(`${configured}::`);
+    }),
+  );
+  if (!matched) {
+    return undefined;
+  }
+
+  if (payload.object_attributes.draft || payload.object_attributes.work_in_progress) {
+    console.log(`[webhook] Ignoring trigger label "${matched}" on draft MR`);
+    return undefined;
+  }
+
+  console.log(
+    `[webhook] Review triggered: label "${matched}" added to MR !${payload.object_attributes.iid} ` +
+    `in ${payload.project.path_with_namespace}`,
+  );
+  return matched;
+}
+
+/**
+ * Derive the review profile from a scoped trigger label
+ * (`ai-review::security` → `security`). Unscoped labels, and scopes that
+ * can't name a profile, use the default review.
+ */
+export function reviewProfileFromLabel(label: string): string | undefined {
+  const separator = label.lastIndexOf("::");
+  if (separator === -1) return undefined;
+
+  const profile = label.slice(separator + 2).trim().toLowerCase();
+  if (!profile) return undefined;
+  if (!isReviewProfileName(profile)) {
+    console.log(`[webhook] Ignoring invalid review profile in label "${label}"`);
+    return undefined;
+  }
+  return profile;
+}
+
 // ─── Comment Reply Detection ────────────────────────────────────────────────
 
 /**
@@ -180,7 +381,8 @@ export function shouldTriggerReview(
  *
  * Criteria:
  *   1. object_kind === "note"
- *   2. The note is on a merge request (noteable_type === "MergeRequest")
+ *   2. The note is on a merge request, an issue or a commit, with matching
+ *      context (merge_request / issue / commit) in the payload
  *   3. The note body mentions the bot username (@botUsername)
  *   4. The note author is NOT the bot itself (avoid infinite loops)
  */
@@ -192,15 +394,29 @@ function shouldRespondToComment(
     return false;
   }
 
-  // Must be a note on a merge request
-  if (payload.object_attributes.noteable_type !== "MergeRequest") {
-    console.log("[webhook] Ignoring note on non-MR:", payload.object_attributes.noteable_type);
-    return false;
-  }
-
-  // Must have MR context
-  if (!payload.merge_request) {
-    console.log("[webhook] Note event missing merge_request context");
+  // Must be a note on a merge request, an issue or a commit, with its context
+  const noteableType = payload.object_attributes.noteable_type;
+  let target: string;
+  if (noteableType === "MergeRequest") {
+    if (!payload.merge_request) {
+      console.log("[webhook] Note event missing merge_request context");
+      return false;
+    }
+    target = `MR !${payload.merge_request.iid}`;
+  } else if (noteableType === "Issue") {
+    if (!payload.issue) {
+      console.log("[webhook] Note event missing issue context");
+      return false;
+    }
+    target = `issue #${payload.issue.iid}`;
+  } else if (noteableType === "Commit") {
+    if (!payload.commit) {
+      console.log("[webhook] Note event missing commit context");
+      return false;
+    }
+    target = `commit ${payload.commit.id.slice(0, 8)}`;
+  } else {
+    console.log("[webhook] Ignoring note on unsupported noteable:", noteableType);
     return false;
   }
 
@@ -219,7 +435,54 @@ function shouldRespondToComment(
 
   console.log(
     `[webhook] Comment reply triggered: @${botUsername} mentioned in discussion ` +
-    `${payload.object_attributes.discussion_id} on MR !${payload.merge_request.iid}`,
+    `${payload.object_attributes.discussion_id} on ${target}`,
+  );
+  return true;
+}
+
+// ─── Pipeline Failure Detection ─────────────────────────────────────────────
+
+/**
+ * Determine whether this pipeline webhook event should trigger a failure
+ * diagnosis.
+ *
+ * Criteria:
+ *   1. Pipeline diagnosis is enabled in config
+ *   2. The pipeline status is "failed"
+ *   3. The pipeline belongs to a merge request
+ *   4. At least one job failed without `allow_failure`
+ */
+export function shouldDiagnosePipeline(
+  payload: PipelineWebhookPayload,
+  enabled: boolean,
+): boolean {
+  if (!enabled) {
+    console.log("[webhook] Pipeline diagnosis is disabled");
+    return false;
+  }
+
+  if (payload.object_attributes.status !== "failed") {
+    console.log("[webhook] Ignoring pipeline with status:", payload.object_attributes.status);
+    return false;
+  }
+
+  if (!payload.merge_request) {
+    console.log("[webhook] Ignoring failed pipeline without merge request");
+    return false;
+  }
+
+  const failedJobs = (payload.builds ?? []).filter(
+    (build) => build.status === "failed" && !build.allow_failure,
+  );
+  if (failedJobs.length === 0) {
+    console.log("[webhook] Failed pipeline has no failed jobs to diagnose");
+    return false;
+  }
+
+  console.log(
+    `[webhook] Pipeline diagnosis triggered: pipeline ${payload.object_attributes.id} failed ` +
+    `(${failedJobs.length} job(s)) for MR !${payload.merge_request.iid} ` +
+    `in ${payload.project.path_with_namespace}`,
   );
   return true;
 }